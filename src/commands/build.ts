@@ -0,0 +1,66 @@
+import chalk from "chalk";
+import { findManifestRoot } from "../utils/manifest";
+import { parseBuildTimeout } from "../utils/build";
+import {
+  printBuildProblems,
+  printSkippedInstallScripts,
+  runLocalBuild,
+} from "../utils/local-build";
+import { BuildError } from "../utils/errors";
+import { log, result, fail } from "../utils/output";
+
+interface BuildOptions {
+  install?: boolean;
+  out?: string;
+  timeout?: string;
+}
+
+export async function buildCommand(options: BuildOptions = {}): Promise<void> {
+  try {
+    const root = findManifestRoot() || process.cwd();
+    const timeout = parseBuildTimeout(options.timeout);
+
+    log(chalk.blue("🔨 Building block locally..."));
+    const build = await runLocalBuild(root, {
+      // --install forces it, --no-install skips it, otherwise when needed
+      install: options.install,
+      outDir: options.out,
+      timeout,
+    });
+
+    printBuildProblems(build.errors, "error");
+    printBuildProblems(build.warnings, "warning");
+
+    if (build.errors.length > 0) {
+      printSkippedInstallScripts(build.skippedInstallScripts);
+      throw new BuildError(
+        `${build.errors.length} error(s), ${build.warnings.length} warning(s)`,
+        {
+          errors: build.errors,
+          warnings: build.warnings,
+          skippedInstallScripts: build.skippedInstallScripts,
+        }
+      );
+    }
+
+    log(chalk.gray(`   Remote entry: ${build.remoteEntry}`));
+    for (const expose of build.exposes) {
+      log(chalk.gray(`   Exposes: ${expose.name} -> ${expose.request}`));
+    }
+    if (build.outDir) {
+      log(chalk.gray(`   Output: ${build.outDir}`));
+    }
+    log(chalk.green("✅ Remote entry and exposed module built"));
+
+    result({
+      remoteEntry: build.remoteEntry,
+      exposes: build.exposes,
+      assets: build.assets,
+      outDir: build.outDir,
+      warnings: build.warnings,
+      duration: build.duration,
+    });
+  } catch (error: any) {
+    fail(error, "Local build failed");
+  }
+}
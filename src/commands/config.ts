@@ -0,0 +1,115 @@
+import chalk from "chalk";
+import { apiClient } from "../utils/api";
+import {
+  readConfig,
+  writeConfig,
+  getActiveProfile,
+  normalizeApiUrl,
+  ProfileConfig,
+} from "../utils/config";
+import { ValidationError } from "../utils/errors";
+import { log, result, fail } from "../utils/output";
+
+// Config keys exposed on the command line, mapped to profile fields
+const CONFIG_KEYS: Record<string, keyof ProfileConfig> = {
+  "api-url": "apiUrl",
+};
+
+function resolveKey(key: string): keyof ProfileConfig {
+  const field = CONFIG_KEYS[key];
+  if (!field) {
+    throw new ValidationError(
+      `Unknown config key "${key}". Available keys: ${Object.keys(
+        CONFIG_KEYS
+      ).join(", ")}`
+    );
+  }
+  return field;
+}
+
+export async function configListCommand(): Promise<void> {
+  try {
+    const profile = getActiveProfile();
+
+    log(chalk.blue("⚙️  MEXTY configuration"));
+    log(chalk.gray(`   Profile: ${profile.name}`));
+    log(
+      chalk.gray(`   API URL: ${profile.apiUrl} (from ${profile.apiUrlSource})`)
+    );
+    log(chalk.gray(`   Auth file: ${profile.authPath}`));
+    log(
+      chalk.gray(`   Logged in: ${apiClient.isAuthenticated() ? "Yes" : "No"}`)
+    );
+
+    result({
+      profile: profile.name,
+      apiUrl: profile.apiUrl,
+      apiUrlSource: profile.apiUrlSource,
+      authPath: profile.authPath,
+      authenticated: apiClient.isAuthenticated(),
+    });
+  } catch (error: any) {
+    fail(error, "Failed to read config");
+  }
+}
+
+export async function configGetCommand(key: string): Promise<void> {
+  try {
+    const field = resolveKey(key);
+    const profile = getActiveProfile();
+    const config = readConfig();
+    const value = config.profiles[profile.name]?.[field];
+
+    if (value === undefined) {
+      log(chalk.gray(`${key} is not set for profile ${profile.name}`));
+    } else {
+      log(value);
+    }
+    result({ profile: profile.name, key, value });
+  } catch (error: any) {
+    fail(error, "Failed to read config");
+  }
+}
+
+export async function configSetCommand(
+  key: string,
+  value: string
+): Promise<void> {
+  try {
+    const field = resolveKey(key);
+    const profile = getActiveProfile();
+    const config = readConfig();
+
+    const normalized = field === "apiUrl" ? normalizeApiUrl(value) : value;
+    config.profiles[profile.name] = {
+      ...config.profiles[profile.name],
+      [field]: normalized,
+    };
+    writeConfig(config);
+
+    log(
+      chalk.green(`✅ Set ${key} = ${normalized} (profile: ${profile.name})`)
+    );
+    result({ profile: profile.name, key, value: normalized });
+  } catch (error: any) {
+    fail(error, "Failed to update config");
+  }
+}
+
+export async function configUnsetCommand(key: string): Promise<void> {
+  try {
+    const field = resolveKey(key);
+    const profile = getActiveProfile();
+    const config = readConfig();
+
+    if (config.profiles[profile.name]) {
+      delete config.profiles[profile.name][field];
+      writeConfig(config);
+    }
+
+    log(chalk.green(`✅ Unset ${key} (profile: ${profile.name})`));
+    result({ profile: profile.name, key });
+  } catch (error: any) {
+    fail(error, "Failed to update config");
+  }
+}
@@ -0,0 +1,124 @@
+import chalk from "chalk";
+import fs from "fs";
+import path from "path";
+import open from "open";
+import { findManifestRoot } from "../utils/manifest";
+import { parsePropsFile, DEFAULT_BLOCK_FILE } from "../utils/props-parser";
+import {
+  DevServer,
+  createFixtureFromSchema,
+  formatMessages,
+  writeFixture,
+} from "../utils/dev-server";
+import { CliError, ValidationError } from "../utils/errors";
+import { log, progress, fail } from "../utils/output";
+
+interface DevOptions {
+  port?: string;
+  host?: string;
+  fixture?: string;
+  open?: boolean;
+}
+
+const DEFAULT_FIXTURE = path.join(".mexty", "fixtures", "default.json");
+const DEFAULT_HOST = "127.0.0.1";
+
+function isLoopback(host: string): boolean {
+  return host === "localhost" || host === "::1" || host.startsWith("127.");
+}
+
+export async function devCommand(options: DevOptions = {}): Promise<void> {
+  try {
+    const root = findManifestRoot() || process.cwd();
+    const blockFile = path.join(root, DEFAULT_BLOCK_FILE);
+    const fixtureFile = path.resolve(root, options.fixture || DEFAULT_FIXTURE);
+    const port = parseInt(options.port || "4300", 10);
+    const host = options.host || DEFAULT_HOST;
+
+    if (isNaN(port) || port <= 0 || port > 65535) {
+      throw new ValidationError("--port must be a valid port number");
+    }
+
+    if (!fs.existsSync(blockFile)) {
+      log(chalk.yellow("   Run this command from a block repository"));
+      throw new CliError(`Block file not found: ${DEFAULT_BLOCK_FILE}`);
+    }
+
+    if (!fs.existsSync(path.join(root, "node_modules", "react-dom"))) {
+      log(chalk.yellow("   Install dependencies first: npm install"));
+      throw new CliError("react-dom is not installed in this block");
+    }
+
+    // Seed the fixture from the props schema the first time
+    if (!fs.existsSync(fixtureFile)) {
+      try {
+        const { schema } = parsePropsFile(blockFile);
+        writeFixture(fixtureFile, createFixtureFromSchema(schema));
+        log(
+          chalk.green(`✅ Created fixture ${path.relative(root, fixtureFile)}`)
+        );
+      } catch (error: any) {
+        writeFixture(fixtureFile, {});
+        console.warn(
+          chalk.yellow(`⚠️  Could not read props schema: ${error.message}`)
+        );
+      }
+    }
+
+    const title = path.basename(root);
+    const server = new DevServer({
+      root,
+      blockFile,
+      fixtureFile,
+      port,
+      host,
+      title,
+      onRebuild: (errors) => {
+        progress("rebuilt", { errors: errors.length > 0 ? formatMessages(errors) : undefined });
+        if (errors.length > 0) {
+          console.error(chalk.red("❌ Build failed:"));
+          console.error(chalk.red(formatMessages(errors)));
+        } else {
+          log(chalk.gray(`   ↻ Rebuilt ${new Date().toLocaleTimeString()}`));
+        }
+      },
+      onFixtureChange: () => {
+        progress("fixture-changed", { fixture: fixtureFile });
+        log(chalk.gray(`   ↻ Fixture changed`));
+      },
+    });
+
+    log(chalk.blue(`🧪 Starting dev server for ${title}...`));
+    await server.start();
+
+    const urlHost = isLoopback(host) || host === "0.0.0.0" || host === "::" ? "localhost" : host;
+    const url = `http://${urlHost.includes(":") ? `[${urlHost}]` : urlHost}:${port}`;
+    log(chalk.green(`✅ Preview running at ${url}`));
+    if (!isLoopback(host)) {
+      console.warn(
+        chalk.yellow(
+          `⚠️  Listening on ${host}: anyone who can reach this machine can view the block and overwrite the fixture`
+        )
+      );
+    }
+    log(chalk.gray(`   Block: ${path.relative(root, blockFile)}`));
+    log(chalk.gray(`   Fixture: ${path.relative(root, fixtureFile)}`));
+    log(chalk.gray("   Press Ctrl+C to stop"));
+    progress("ready", { url, blockFile, fixture: fixtureFile });
+
+    if (options.open) {
+      open(url).catch(() => {
+        console.warn(chalk.yellow("⚠️  Could not open browser automatically"));
+      });
+    }
+
+    const shutdown = async () => {
+      await server.stop();
+      process.exit(0);
+    };
+    process.once("SIGINT", shutdown);
+    process.once("SIGTERM", shutdown);
+  } catch (error: any) {
+    fail(error, "Failed to start dev server");
+  }
+}
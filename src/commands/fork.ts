@@ -0,0 +1,135 @@
+import chalk from "chalk";
+import path from "path";
+import { apiClient, ForkBlockRequest } from "../utils/api";
+import { GitManager } from "../utils/git";
+import { requireAuthentication, getAuthenticatedUser } from "../utils/auth";
+import { waitForGitHubInvitation } from "../utils/github-invitation";
+import { manifestFromBlock } from "../utils/block";
+import { writeManifest } from "../utils/manifest";
+import { CliError, ExitCode, TimeoutError } from "../utils/errors";
+import { log, progress, result, fail } from "../utils/output";
+
+interface ForkOptions {
+  title?: string;
+  description?: string;
+}
+
+export async function forkCommand(
+  sourceBlockId: string,
+  options: ForkOptions = {}
+): Promise<void> {
+  try {
+    // Check authentication first
+    requireAuthentication();
+
+    const user = getAuthenticatedUser();
+    log(chalk.blue(`🍴 Forking block: ${sourceBlockId}`));
+    log(
+      chalk.gray(`   User: ${user?.fullName || user?.email || "Unknown"}`)
+    );
+
+    // Prepare fork data
+    const forkData: ForkBlockRequest = {
+      blockId: sourceBlockId,
+    };
+    if (options.title) {
+      forkData.title = options.title;
+    }
+    if (options.description) {
+      forkData.description = options.description;
+    }
+
+    log(chalk.yellow("📡 Forking block on server..."));
+
+    // Fork the block
+    const block = await apiClient.forkBlock(forkData);
+    const blockId = block.id || block._id;
+    const forkedId = block.forkedId || sourceBlockId;
+
+    log(chalk.green(`✅ Block forked successfully!`));
+    log(chalk.gray(`   Block ID: ${blockId}`));
+    log(chalk.gray(`   Title: ${block.title || block._doc?.title}`));
+    log(chalk.gray(`   Forked from: ${forkedId}`));
+
+    // Handle both plain objects and Mongoose documents
+    const gitUrl = block.gitUrl || block._doc?.gitUrl;
+    progress("forked", { blockId, forkedId, gitUrl });
+
+    // Add the block to user's structure
+    log(chalk.yellow("📚 Adding block to your library..."));
+    try {
+      await apiClient.addBlockToStructure(blockId);
+      log(chalk.green(`✅ Block added to your library!`));
+    } catch (structureError: any) {
+      console.warn(
+        chalk.yellow(
+          `⚠️  Block forked but couldn't add to library: ${structureError.message}`
+        )
+      );
+      log(chalk.gray("   The block is still accessible via the API"));
+    }
+
+    if (!gitUrl) {
+      log(
+        chalk.yellow(
+          "⚠️  No GitHub repository was created (GitHub not configured)"
+        )
+      );
+      result({ blockId, forkedId });
+      return;
+    }
+
+    log(chalk.gray(`   GitHub URL: ${gitUrl}`));
+
+    // Wait for the collaborator invitation on private repositories
+    const hasAccess = await waitForGitHubInvitation(blockId, gitUrl);
+    if (!hasAccess) {
+      throw new TimeoutError(
+        "GitHub invitation not accepted within 10 minutes, the block was forked but not cloned"
+      );
+    }
+
+    // Clone the repository
+    const repoName = GitManager.extractRepoName(gitUrl);
+    const targetDir = path.join(process.cwd(), repoName);
+
+    log(chalk.yellow(`📦 Cloning repository to ./${repoName}...`));
+
+    try {
+      const gitManager = new GitManager();
+      await gitManager.cloneRepository(gitUrl, targetDir);
+    } catch (cloneError: any) {
+      log(chalk.yellow(`\n💡 This might be a private repository.`));
+      log(chalk.gray(`   Connect your GitHub account: mexty github-login`));
+      log(chalk.yellow(`\nYou can manually clone it later:`));
+      log(chalk.gray(`  git clone ${gitUrl}`));
+      throw new CliError(
+        `Block forked but the repository could not be cloned: ${cloneError.message}`,
+        ExitCode.Error,
+        { blockId, forkedId, gitUrl }
+      );
+    }
+
+    try {
+      writeManifest(targetDir, { ...manifestFromBlock(block), forkedId });
+    } catch (manifestError: any) {
+      console.warn(
+        chalk.yellow(
+          `⚠️  Could not write block manifest: ${manifestError.message}`
+        )
+      );
+    }
+
+    log(
+      chalk.green(`🎉 Block forked and repository cloned successfully!`)
+    );
+    log(chalk.blue(`\nNext steps:`));
+    log(chalk.gray(`  1. cd ${repoName}`));
+    log(chalk.gray(`  2. Make your changes`));
+    log(chalk.gray(`  3. mexty save`));
+
+    result({ blockId, forkedId, gitUrl, directory: targetDir });
+  } catch (error: any) {
+    fail(error, "Failed to fork block");
+  }
+}
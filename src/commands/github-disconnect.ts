@@ -1,80 +1,54 @@
 import chalk from 'chalk';
-import { createInterface } from 'readline';
 import { apiClient } from '../utils/api';
 import { requireAuthentication } from '../utils/auth';
-
-// Simple prompt function
-async function prompt(question: string): Promise<string> {
-  return new Promise((resolve) => {
-    const rl = createInterface({
-      input: process.stdin,
-      output: process.stdout
-    });
-
-    rl.question(question, (answer) => {
-      rl.close();
-      resolve(answer.trim());
-    });
-  });
-}
+import { confirm } from '../utils/prompt';
+import { CliError, CancelledError } from '../utils/errors';
+import { log, result, fail } from '../utils/output';
 
 export async function githubDisconnectCommand(): Promise<void> {
   try {
     // Check authentication first
     requireAuthentication();
 
-    console.log(chalk.blue('🔓 Disconnect GitHub Account'));
-    console.log(chalk.gray('   Remove GitHub access from your MEXTY account\n'));
+    log(chalk.blue('🔓 Disconnect GitHub Account'));
+    log(chalk.gray('   Remove GitHub access from your MEXTY account\n'));
 
     // Check if connected
-    try {
-      const status = await apiClient.getGitHubStatus();
-      
-      if (!status.connected) {
-        console.log(chalk.yellow('ℹ️  GitHub is not connected'));
-        console.log(chalk.gray('   Nothing to disconnect\n'));
-        console.log(chalk.blue('To connect GitHub, run: mexty github-login'));
-        return;
-      }
+    const status = await apiClient.getGitHubStatus();
+
+    if (!status.connected) {
+      log(chalk.yellow('ℹ️  GitHub is not connected'));
+      log(chalk.gray('   Nothing to disconnect\n'));
+      log(chalk.blue('To connect GitHub, run: mexty github-login'));
+      result({ connected: false });
+      return;
+    }
 
-      console.log(chalk.yellow('⚠️  Current GitHub connection:'));
-      console.log(chalk.gray(`   Username: ${status.githubUsername}\n`));
+    log(chalk.yellow('⚠️  Current GitHub connection:'));
+    log(chalk.gray(`   Username: ${status.githubUsername}\n`));
 
-      // Confirm disconnection
-      const confirm = await prompt('Are you sure you want to disconnect GitHub? (y/N): ');
-      
-      if (confirm.toLowerCase() !== 'y' && confirm.toLowerCase() !== 'yes') {
-        console.log(chalk.gray('Cancelled'));
-        return;
-      }
+    // Confirm disconnection
+    const confirmed = await confirm('Are you sure you want to disconnect GitHub?');
 
-      console.log(chalk.yellow('\n🔄 Disconnecting GitHub...'));
+    if (!confirmed) {
+      throw new CancelledError('Cancelled');
+    }
 
-      // Disconnect
-      const result = await apiClient.disconnectGitHub();
+    log(chalk.yellow('\n🔄 Disconnecting GitHub...'));
 
-      if (result.success) {
-        console.log(chalk.green(`\n✅ ${result.message}`));
-        console.log(chalk.gray('   You will no longer be able to clone private repositories'));
-        console.log(chalk.blue('\nTo reconnect, run: mexty github-login'));
-      } else {
-        console.error(chalk.red(`\n❌ ${result.message}`));
-        process.exit(1);
-      }
+    // Disconnect
+    const response = await apiClient.disconnectGitHub();
 
-    } catch (error: any) {
-      console.error(chalk.red(`❌ Failed to disconnect GitHub: ${error.message}`));
-      process.exit(1);
+    if (!response.success) {
+      throw new CliError(response.message);
     }
 
+    log(chalk.green(`\n✅ ${response.message}`));
+    log(chalk.gray('   You will no longer be able to clone private repositories'));
+    log(chalk.blue('\nTo reconnect, run: mexty github-login'));
+    result({ connected: false, githubUsername: status.githubUsername });
   } catch (error: any) {
-    console.error(chalk.red(`❌ GitHub disconnect failed: ${error.message}`));
-    
-    if (error.response?.status === 401) {
-      console.log(chalk.yellow('   Please login first: mexty login'));
-    }
-    
-    process.exit(1);
+    fail(error, 'GitHub disconnect failed');
   }
 }
 
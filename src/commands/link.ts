@@ -0,0 +1,182 @@
+import chalk from "chalk";
+import fs from "fs";
+import path from "path";
+import simpleGit from "simple-git";
+import { apiClient } from "../utils/api";
+import { requireAuthentication } from "../utils/auth";
+import { manifestFromBlock } from "../utils/block";
+import { GitManager } from "../utils/git";
+import {
+  findManifestRoot,
+  readManifest,
+  removeManifest,
+  writeManifest,
+  MANIFEST_DIR,
+  MANIFEST_FILE,
+} from "../utils/manifest";
+import { DEFAULT_BLOCK_FILE } from "../utils/props-parser";
+import { validateBlockProps } from "../utils/validate";
+import { confirm, prompt } from "../utils/prompt";
+import { CliError, CancelledError } from "../utils/errors";
+import { log, result, fail } from "../utils/output";
+
+/**
+ * Files the server build expects in a block repository
+ */
+function checkStructure(root: string): string[] {
+  const problems: string[] = [];
+
+  for (const file of ["package.json", "webpack.config.js"]) {
+    if (!fs.existsSync(path.join(root, file))) {
+      problems.push(`${file} is missing`);
+    }
+  }
+
+  const blockFile = path.join(root, DEFAULT_BLOCK_FILE);
+  if (!fs.existsSync(blockFile)) {
+    problems.push(`${DEFAULT_BLOCK_FILE} is missing, the block component must be its default export`);
+    return problems;
+  }
+
+  const validation = validateBlockProps(blockFile);
+  for (const issue of validation.issues) {
+    if (issue.severity === "error") {
+      problems.push(
+        `${path.relative(root, issue.file)}:${issue.line}:${issue.column} ${issue.message}`
+      );
+    }
+  }
+  return problems;
+}
+
+export async function linkCommand(blockId?: string): Promise<void> {
+  try {
+    // Check authentication first
+    requireAuthentication();
+
+    const gitManager = new GitManager();
+    let root = await gitManager.getRepositoryRoot();
+    if (!root) {
+      const init = await confirm(
+        `${process.cwd()} is not a git repository. Initialize one?`
+      );
+      if (!init) {
+        throw new CancelledError("A block needs a git repository, nothing was linked.");
+      }
+      await simpleGit().init();
+      root = process.cwd();
+      log(chalk.green("✅ Initialized git repository"));
+    }
+
+    // Without a block ID, refresh the current link. Only a manifest in this
+    // directory counts, not one of an enclosing repository.
+    const existing =
+      findManifestRoot(root) === path.resolve(root) ? readManifest(root) : null;
+    if (!blockId) {
+      blockId =
+        existing?.blockId ||
+        (await prompt("Block ID to link", undefined, "mexty link <blockId>"));
+      if (!blockId) {
+        throw new CliError("A block ID is required.");
+      }
+    }
+
+    if (existing && existing.blockId !== blockId) {
+      console.warn(
+        chalk.yellow(`⚠️  This directory is linked to block ${existing.blockId}`)
+      );
+      const replace = await confirm(`Link it to block ${blockId} instead?`);
+      if (!replace) {
+        throw new CancelledError("Link unchanged.");
+      }
+    }
+
+    log(chalk.yellow("📡 Fetching block..."));
+    const block = await apiClient.getBlock(blockId);
+    const gitUrl = block.gitUrl || block._doc?.gitUrl;
+
+    log(chalk.blue(`📦 ${block.title || block._doc?.title}`));
+    log(chalk.gray(`   Block ID: ${blockId}`));
+    log(chalk.gray(`   Directory: ${root}`));
+
+    // The server builds from the block's repository, so origin must point there
+    let remote: "match" | "added" | "replaced" | "mismatch" | "none" = "none";
+    const origin = await gitManager.getRemoteUrl(root);
+    if (!gitUrl) {
+      console.warn(chalk.yellow("⚠️  The block has no git repository, origin was not checked"));
+    } else if (origin && GitManager.isSameRepository(origin, gitUrl)) {
+      remote = "match";
+      log(chalk.green(`✅ origin matches the block repository`));
+    } else if (!origin) {
+      if (await confirm(`Add origin ${gitUrl}?`)) {
+        await gitManager.setOrigin(gitUrl, root);
+        remote = "added";
+        log(chalk.green(`✅ Added origin ${gitUrl}`));
+      } else {
+        remote = "mismatch";
+      }
+    } else {
+      console.warn(chalk.yellow(`⚠️  origin is ${origin}`));
+      console.warn(chalk.yellow(`   but the block is built from ${gitUrl}`));
+      if (await confirm(`Replace origin with ${gitUrl}?`)) {
+        await gitManager.setOrigin(gitUrl, root);
+        remote = "replaced";
+        log(chalk.green(`✅ origin now points to ${gitUrl}`));
+      } else {
+        remote = "mismatch";
+      }
+    }
+
+    if (remote === "mismatch") {
+      log(chalk.gray("   mexty save pushes to origin, which the server does not build."));
+      log(chalk.gray(`   Point the block at your repository instead: mexty update-git-url ${blockId} <url>`));
+    }
+
+    // Keep metadata fields of a manifest that already belongs to this block
+    const manifestPath = writeManifest(root, {
+      ...(existing?.blockId === blockId ? existing : {}),
+      ...manifestFromBlock(block),
+    });
+    log(chalk.green(`✅ Wrote ${path.relative(process.cwd(), manifestPath) || manifestPath}`));
+
+    const problems = checkStructure(root);
+    if (problems.length > 0) {
+      console.warn(chalk.yellow("⚠️  This directory does not look like a block yet:"));
+      for (const problem of problems) {
+        console.warn(chalk.yellow(`   - ${problem}`));
+      }
+      log(chalk.gray("   Compare with a repository from mexty create, and check with mexty validate"));
+    } else {
+      log(chalk.green("✅ Block structure looks good"));
+    }
+
+    log(chalk.gray("   Commit .mexty/block.json so everyone resolves the same block"));
+    result({ blockId, directory: root, gitUrl, remote, problems });
+  } catch (error: any) {
+    fail(error, "Failed to link block");
+  }
+}
+
+export async function unlinkCommand(): Promise<void> {
+  try {
+    const root = findManifestRoot();
+    const manifest = root ? readManifest(root) : null;
+    if (!root || !manifest) {
+      throw new CliError("This directory is not linked to a block.");
+    }
+
+    const proceed = await confirm(
+      `Unlink ${root} from block ${manifest.blockId}?`
+    );
+    if (!proceed) {
+      throw new CancelledError("Link unchanged.");
+    }
+
+    removeManifest(root);
+    log(chalk.green(`✅ Removed ${path.join(MANIFEST_DIR, MANIFEST_FILE)}`));
+    log(chalk.gray("   The git remote and the block itself were left untouched"));
+    result({ blockId: manifest.blockId, directory: root });
+  } catch (error: any) {
+    fail(error, "Failed to unlink block");
+  }
+}
@@ -0,0 +1,150 @@
+import chalk from "chalk";
+import {
+  apiClient,
+  Block,
+  BLOCK_SCOPES,
+  ListBlocksRequest,
+} from "../utils/api";
+import { requireAuthentication } from "../utils/auth";
+import { ValidationError } from "../utils/errors";
+import { log, result, fail } from "../utils/output";
+
+interface ListOptions {
+  scope?: string;
+  status?: string;
+  type?: string;
+  course?: string;
+  sort?: string;
+  page?: string;
+  limit?: string;
+}
+
+const BUILD_STATUSES = ["pending", "building", "success", "failed"];
+const SORT_ORDERS = ["asc", "desc"];
+
+function parsePositiveInt(value: string, name: string): number {
+  const parsed = parseInt(value, 10);
+  if (isNaN(parsed) || parsed <= 0) {
+    throw new ValidationError(`${name} must be a positive number`);
+  }
+  return parsed;
+}
+
+function truncate(value: string, width: number): string {
+  return value.length > width ? `${value.slice(0, width - 1)}…` : value;
+}
+
+function formatDate(value?: Date | string): string {
+  if (!value) {
+    return "-";
+  }
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? "-" : date.toISOString().slice(0, 10);
+}
+
+function colorStatus(status?: string): string {
+  switch (status) {
+    case "success":
+      return chalk.green(status);
+    case "failed":
+      return chalk.red(status);
+    case "pending":
+    case "building":
+      return chalk.yellow(status);
+    default:
+      return chalk.gray("-");
+  }
+}
+
+function printTable(blocks: Block[]): void {
+  const rows = blocks.map((block) => ({
+    id: block.id || block._id,
+    title: truncate(block.title || block._doc?.title || "", 32),
+    type: truncate(block.blockType || block._doc?.blockType || "", 14),
+    status: block.buildStatus || "",
+    scope: (block.scope || []).join(","),
+    updated: formatDate(block.updatedAt),
+  }));
+
+  const headers = {
+    id: "ID",
+    title: "TITLE",
+    type: "TYPE",
+    status: "BUILD",
+    scope: "SCOPE",
+    updated: "UPDATED",
+  };
+  const columns = Object.keys(headers) as (keyof typeof headers)[];
+  const widths = columns.map((column) =>
+    Math.max(headers[column].length, ...rows.map((row) => row[column].length))
+  );
+
+  log(
+    chalk.bold(
+      columns.map((column, i) => headers[column].padEnd(widths[i])).join("  ")
+    )
+  );
+
+  for (const row of rows) {
+    log(
+      columns
+        .map((column, i) => {
+          const cell = row[column].padEnd(widths[i]);
+          return column === "status"
+            ? cell.replace(row.status || "-", colorStatus(row.status))
+            : cell;
+        })
+        .join("  ")
+    );
+  }
+}
+
+export async function listCommand(options: ListOptions = {}): Promise<void> {
+  try {
+    // Check authentication first
+    requireAuthentication();
+
+    if (options.scope && !(BLOCK_SCOPES as readonly string[]).includes(options.scope)) {
+      throw new ValidationError(`--scope must be one of: ${BLOCK_SCOPES.join(", ")}`);
+    }
+    if (options.status && !BUILD_STATUSES.includes(options.status)) {
+      throw new ValidationError(`--status must be one of: ${BUILD_STATUSES.join(", ")}`);
+    }
+    if (options.sort && !SORT_ORDERS.includes(options.sort)) {
+      throw new ValidationError(`--sort must be one of: ${SORT_ORDERS.join(", ")}`);
+    }
+
+    const params: ListBlocksRequest = {
+      scope: options.scope as ListBlocksRequest["scope"],
+      buildStatus: options.status as ListBlocksRequest["buildStatus"],
+      blockType: options.type,
+      courseId: options.course,
+      sort: options.sort === "asc" ? "updatedAt" : "-updatedAt",
+      page: parsePositiveInt(options.page || "1", "--page"),
+      limit: parsePositiveInt(options.limit || "20", "--limit"),
+    };
+
+    const response = await apiClient.listBlocks(params);
+    const page = response.page || params.page!;
+    const limit = response.limit || params.limit!;
+
+    result({ blocks: response.blocks, total: response.total, page, limit });
+
+    if (response.blocks.length === 0) {
+      log(chalk.yellow("No blocks found"));
+      return;
+    }
+
+    printTable(response.blocks);
+
+    const totalPages = Math.max(1, Math.ceil(response.total / limit));
+    log(
+      chalk.gray(`\nPage ${page} of ${totalPages} (${response.total} blocks)`)
+    );
+    if (page < totalPages) {
+      log(chalk.gray(`   Next page: mexty list --page ${page + 1}`));
+    }
+  } catch (error: any) {
+    fail(error, "Failed to list blocks");
+  }
+}
@@ -1,20 +1,20 @@
 import chalk from 'chalk';
-import { createInterface } from 'readline';
+import fs from 'fs';
 import { apiClient } from '../utils/api';
+import { prompt, confirm } from '../utils/prompt';
+import { AuthenticationError, MissingInputError, ValidationError } from '../utils/errors';
+import { log, result, fail } from '../utils/output';
+import { decodeTokenExpiry, formatExpiry, isExpired } from '../utils/token';
 
-// Simple prompt function
-async function prompt(question: string): Promise<string> {
-  return new Promise((resolve) => {
-    const rl = createInterface({
-      input: process.stdin,
-      output: process.stdout
-    });
+interface LoginOptions {
+  token?: string;
+}
 
-    rl.question(question, (answer) => {
-      rl.close();
-      resolve(answer.trim());
-    });
-  });
+function logExpiry(): void {
+  const expiresAt = apiClient.getTokenExpiry();
+  if (expiresAt) {
+    log(chalk.gray(`   Expires: ${expiresAt.toLocaleString()} (${formatExpiry(expiresAt)})`));
+  }
 }
 
 // Wait function for countdown
@@ -22,83 +22,120 @@ async function wait(seconds: number): Promise<void> {
   return new Promise(resolve => setTimeout(resolve, seconds * 1000));
 }
 
-export async function loginCommand(): Promise<void> {
+// Read a token piped on stdin (mexty login --token -)
+function readTokenFromStdin(): string {
+  return fs.readFileSync(0, 'utf8').trim();
+}
+
+async function tokenLogin(token: string): Promise<void> {
+  if (token === '-') {
+    token = readTokenFromStdin();
+  }
+
+  if (!token) {
+    throw new MissingInputError('Please provide a non-empty token');
+  }
+
+  const expiresAt = decodeTokenExpiry(token);
+  if (expiresAt && isExpired(expiresAt)) {
+    throw new AuthenticationError(`This token expired ${formatExpiry(expiresAt)}`);
+  }
+
+  apiClient.saveToken(token);
+  log(chalk.green(`✅ Token saved for profile: ${apiClient.getProfileName()}`));
+  log(chalk.gray(`   Server: ${apiClient.getBaseUrl()}`));
+  logExpiry();
+  result({
+    profile: apiClient.getProfileName(),
+    apiUrl: apiClient.getBaseUrl(),
+    expiresAt: apiClient.getTokenExpiry()?.toISOString(),
+  });
+}
+
+export async function loginCommand(options: LoginOptions = {}): Promise<void> {
   try {
-    console.log(chalk.blue('🔐 Login to MEXT'));
+    log(chalk.blue('🔐 Login to MEXT'));
+
+    if (apiClient.isUsingEnvToken()) {
+      log(chalk.yellow('⚠️  MEXTY_TOKEN is set and takes precedence over a stored login'));
+    }
+
+    // Token login never prompts, so it works in CI
+    if (options.token) {
+      await tokenLogin(options.token);
+      return;
+    }
 
     // Check if already authenticated
-    if (apiClient.isAuthenticated()) {
+    if (apiClient.isAuthenticated() && !apiClient.isUsingEnvToken()) {
       const user = apiClient.getStoredUser();
-      console.log(chalk.green('✅ You are already logged in!'));
-      console.log(chalk.gray(`   Email: ${user?.email || 'Unknown'}`));
-      console.log(chalk.gray(`   Name: ${user?.fullName || 'Not set'}`));
-      
-      const logout = await prompt('Do you want to logout and login as a different user? (y/N): ');
-      if (logout.toLowerCase() !== 'y' && logout.toLowerCase() !== 'yes') {
+      log(chalk.green('✅ You are already logged in!'));
+      log(chalk.gray(`   Email: ${user?.email || 'Unknown'}`));
+      log(chalk.gray(`   Name: ${user?.fullName || 'Not set'}`));
+      logExpiry();
+
+      const logout = await confirm('Do you want to logout and login as a different user?', false);
+      if (!logout) {
+        result({ profile: apiClient.getProfileName(), user });
         return;
       }
-      
+
       await apiClient.logout();
-      console.log(chalk.yellow('📤 Logged out successfully'));
+      log(chalk.yellow('📤 Logged out successfully'));
     }
 
     // Request email
-    const email = await prompt('Enter your email address: ');
-    
+    const email = await prompt('Enter your email address', undefined, '--token or MEXTY_TOKEN');
+
     if (!email || !email.includes('@')) {
-      console.error(chalk.red('❌ Please provide a valid email address'));
-      process.exit(1);
+      throw new ValidationError('Please provide a valid email address');
     }
 
-    console.log(chalk.yellow('📧 Requesting verification code...'));
+    log(chalk.yellow('📧 Requesting verification code...'));
 
     // Request OTP
-    try {
-      const otpResponse = await apiClient.requestOTP(email);
-      
-      if (!otpResponse.success) {
-        console.error(chalk.red(`❌ ${otpResponse.message}`));
-        process.exit(1);
-      }
+    const otpResponse = await apiClient.requestOTP(email);
 
-      console.log(chalk.green('✅ Verification code sent to your email'));
-      console.log(chalk.gray('   Please check your inbox (and spam folder)'));
-      
-      // Wait a moment for the user to check email
-      await wait(2);
-      
-      // Request OTP code
-      const otp = await prompt('Enter the 6-digit verification code: ');
-      
-      if (!otp || otp.length !== 6 || !/^\d{6}$/.test(otp)) {
-        console.error(chalk.red('❌ Please provide a valid 6-digit code'));
-        process.exit(1);
-      }
+    if (!otpResponse.success) {
+      throw new AuthenticationError(otpResponse.message);
+    }
 
-      console.log(chalk.yellow('🔓 Verifying code...'));
+    log(chalk.green('✅ Verification code sent to your email'));
+    log(chalk.gray('   Please check your inbox (and spam folder)'));
 
-      // Verify OTP
-      const verifyResponse = await apiClient.verifyOTP(email, otp);
-      
-      if (!verifyResponse.success) {
-        console.error(chalk.red(`❌ ${verifyResponse.message}`));
-        process.exit(1);
-      }
+    // Wait a moment for the user to check email
+    await wait(2);
 
-      console.log(chalk.green('🎉 Login successful!'));
-      console.log(chalk.gray(`   Welcome, ${verifyResponse.user?.fullName || verifyResponse.user?.email || 'User'}!`));
-      
-      if (!verifyResponse.user?.isProfileComplete) {
-        console.log(chalk.yellow('⚠️  Your profile is incomplete. Please complete it in the web interface.'));
-      }
+    // Request OTP code
+    const otp = await prompt('Enter the 6-digit verification code');
 
-    } catch (error: any) {
-      console.error(chalk.red(`❌ Login failed: ${error.message}`));
-      process.exit(1);
+    if (!otp || otp.length !== 6 || !/^\d{6}$/.test(otp)) {
+      throw new ValidationError('Please provide a valid 6-digit code');
     }
 
+    log(chalk.yellow('🔓 Verifying code...'));
+
+    // Verify OTP
+    const verifyResponse = await apiClient.verifyOTP(email, otp);
+
+    if (!verifyResponse.success) {
+      throw new AuthenticationError(verifyResponse.message);
+    }
+
+    log(chalk.green('🎉 Login successful!'));
+    log(chalk.gray(`   Welcome, ${verifyResponse.user?.fullName || verifyResponse.user?.email || 'User'}!`));
+    logExpiry();
+
+    if (!verifyResponse.user?.isProfileComplete) {
+      log(chalk.yellow('⚠️  Your profile is incomplete. Please complete it in the web interface.'));
+    }
+
+    result({
+      profile: apiClient.getProfileName(),
+      user: verifyResponse.user,
+      expiresAt: apiClient.getTokenExpiry()?.toISOString(),
+    });
   } catch (error: any) {
-    console.error(chalk.red(`❌ Login error: ${error.message}`));
-    process.exit(1);
+    fail(error, 'Login failed');
   }
-} 
\ No newline at end of file
+}
@@ -0,0 +1,92 @@
+import chalk from "chalk";
+import { apiClient, BuildLogLine } from "../utils/api";
+import { requireAuthentication } from "../utils/auth";
+import { findBlockId } from "../utils/block";
+import { BUILD_IN_PROGRESS, parseBuildTimeout } from "../utils/build";
+import { BuildError, CliError, ValidationError } from "../utils/errors";
+import { followBuildLogs, printLogLine } from "../utils/logs";
+import { log, progress, result, fail } from "../utils/output";
+
+interface LogsOptions {
+  build?: string;
+  follow?: boolean;
+  tail?: string;
+  timeout?: string;
+}
+
+export async function logsCommand(
+  blockId?: string,
+  options: LogsOptions = {}
+): Promise<void> {
+  try {
+    // Check authentication first
+    requireAuthentication();
+
+    // Fall back to the block of the current repository
+    if (!blockId) {
+      blockId = (await findBlockId()) || undefined;
+      if (!blockId) {
+        log(chalk.yellow("   Pass a block ID: mexty logs <blockId>"));
+        throw new CliError("Could not determine block ID from repository.");
+      }
+    }
+
+    let tail: number | undefined;
+    if (options.tail !== undefined) {
+      tail = parseInt(options.tail, 10);
+      if (isNaN(tail) || tail <= 0) {
+        throw new ValidationError("--tail must be a positive number of lines");
+      }
+    }
+    const timeout = parseBuildTimeout(options.timeout);
+
+    const logs = await apiClient.getBuildLogs(blockId, {
+      buildId: options.build,
+      tail,
+    });
+    log(chalk.blue(`📜 Build ${logs.buildId} of block ${blockId} (${logs.status || "unknown"})`));
+
+    // While following, --json emits the lines as progress events as they come
+    const follow =
+      !!options.follow && !!logs.status && BUILD_IN_PROGRESS.includes(logs.status);
+    const onLine = (line: BuildLogLine) => {
+      printLogLine(line);
+      if (follow) {
+        progress("log", { ...line });
+      }
+    };
+    logs.lines.forEach(onLine);
+
+    let status = logs.status;
+    if (follow) {
+      status = await followBuildLogs(blockId, logs.buildId, {
+        offset: logs.nextOffset,
+        timeout,
+        onLine,
+      });
+      log(
+        status === "success"
+          ? chalk.green("\n✅ Build succeeded")
+          : chalk.red(`\n❌ Build ${status || "ended"}`)
+      );
+      if (status !== "success") {
+        throw new BuildError(`Build ${status || "did not succeed"}`, {
+          blockId,
+          buildId: logs.buildId,
+          buildStatus: status,
+        });
+      }
+    } else if (logs.lines.length === 0) {
+      log(chalk.gray("   No log lines yet"));
+    }
+
+    result({
+      blockId,
+      buildId: logs.buildId,
+      status,
+      lines: follow ? undefined : logs.lines,
+    });
+  } catch (error: any) {
+    fail(error, "Failed to get build logs");
+  }
+}
@@ -0,0 +1,67 @@
+import chalk from "chalk";
+import fs from "fs";
+import {
+  readConfig,
+  writeConfig,
+  listProfiles,
+  getAuthPath,
+  getActiveProfile,
+  DEFAULT_API_URL,
+  DEFAULT_PROFILE,
+} from "../utils/config";
+import { CliError } from "../utils/errors";
+import { log, result, fail } from "../utils/output";
+
+export async function profileListCommand(): Promise<void> {
+  try {
+    const config = readConfig();
+    const active = getActiveProfile().name;
+
+    const profiles = listProfiles(config).map((name) => ({
+      name,
+      apiUrl: config.profiles[name]?.apiUrl || DEFAULT_API_URL,
+      active: name === active,
+      loggedIn: fs.existsSync(getAuthPath(name)),
+    }));
+
+    log(chalk.blue("👤 Profiles"));
+    for (const profile of profiles) {
+      const marker = profile.active ? chalk.green("*") : " ";
+      const loggedIn = profile.loggedIn
+        ? chalk.green("logged in")
+        : chalk.gray("logged out");
+      log(`${marker} ${profile.name.padEnd(16)} ${profile.apiUrl}  ${loggedIn}`);
+    }
+    result({ profiles });
+  } catch (error: any) {
+    fail(error, "Failed to list profiles");
+  }
+}
+
+export async function profileUseCommand(name: string): Promise<void> {
+  try {
+    const config = readConfig();
+
+    if (name !== DEFAULT_PROFILE && !config.profiles[name]) {
+      log(
+        chalk.yellow(
+          `   Create it with: mexty config set api-url <url> --profile ${name}`
+        )
+      );
+      throw new CliError(`Unknown profile: ${name}`);
+    }
+
+    config.currentProfile = name;
+    writeConfig(config);
+
+    log(chalk.green(`✅ Now using profile: ${name}`));
+    const apiUrl = config.profiles[name]?.apiUrl || DEFAULT_API_URL;
+    log(chalk.gray(`   API URL: ${apiUrl}`));
+    if (!fs.existsSync(getAuthPath(name))) {
+      log(chalk.yellow("   Not logged in yet: mexty login"));
+    }
+    result({ profile: name, apiUrl });
+  } catch (error: any) {
+    fail(error, "Failed to switch profile");
+  }
+}
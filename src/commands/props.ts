@@ -0,0 +1,82 @@
+import chalk from "chalk";
+import path from "path";
+import { PropSchema } from "../utils/api";
+import {
+  parsePropsFile,
+  ParsedProp,
+  PropsParseError,
+  resolveBlockFile,
+} from "../utils/props-parser";
+import { ValidationError } from "../utils/errors";
+import { log, result, fail } from "../utils/output";
+
+function describeType(schema: PropSchema): string {
+  if (schema.enum) {
+    return schema.enum.map((value) => JSON.stringify(value)).join(" | ");
+  }
+  if (schema.type === "array") {
+    return `${schema.items ? describeType(schema.items) : "unknown"}[]`;
+  }
+  if (schema.format) {
+    return `${schema.type} (${schema.format})`;
+  }
+  return schema.type;
+}
+
+function printProp(prop: ParsedProp): void {
+  const depth = prop.path.split(".").length - 1;
+  const indent = "   " + "  ".repeat(depth);
+  const name = prop.path.split(".").pop();
+  const marker = prop.optional ? "?" : "";
+
+  if (!prop.schema) {
+    log(
+      chalk.yellow(`${indent}${name}${marker}: ${prop.typeText}`) +
+        chalk.gray(`  (skipped: ${prop.unsupportedReason})`)
+    );
+    return;
+  }
+
+  log(`${indent}${chalk.bold(name + marker)}: ${chalk.cyan(describeType(prop.schema))}`);
+  if (prop.description) {
+    log(chalk.gray(`${indent}  ${prop.description.split("\n")[0]}`));
+  }
+}
+
+export async function propsCommand(file?: string): Promise<void> {
+  const blockFile = resolveBlockFile(file);
+  const relativeFile = path.relative(process.cwd(), blockFile);
+
+  try {
+    const parsed = parsePropsFile(blockFile);
+
+    result({
+      file: relativeFile,
+      interfaceName: parsed.interfaceName,
+      schema: parsed.schema,
+    });
+
+    log(
+      chalk.blue(`🧩 ${parsed.interfaceName}`) +
+        chalk.gray(` (${relativeFile}:${parsed.line})`)
+    );
+
+    if (parsed.props.length === 0) {
+      log(chalk.yellow("   No props declared"));
+      return;
+    }
+
+    for (const prop of parsed.props) {
+      printProp(prop);
+    }
+  } catch (error: any) {
+    if (error instanceof PropsParseError) {
+      fail(
+        new ValidationError(
+          `${path.relative(process.cwd(), error.file)}:${error.line}:${error.column}: ${error.message}`
+        )
+      );
+    }
+    fail(error, "Failed to parse props");
+  }
+}
@@ -1,77 +1,28 @@
 import chalk from "chalk";
-import fs from "fs";
-import path from "path";
 import { apiClient } from "../utils/api";
 import { GitManager } from "../utils/git";
-import { createInterface } from "readline";
-// Removed sync command import as it's been deleted
 import { requireAuthentication, getAuthenticatedUser } from "../utils/auth";
-
-// Simple confirmation function
-async function confirm(question: string): Promise<boolean> {
-  return new Promise((resolve) => {
-    const rl = createInterface({
-      input: process.stdin,
-      output: process.stdout,
-    });
-
-    rl.question(`${question} (y/N): `, (answer) => {
-      rl.close();
-      resolve(
-        answer.toLowerCase().trim() === "y" ||
-          answer.toLowerCase().trim() === "yes"
-      );
-    });
-  });
-}
-
-// Extract block ID from package.json or git URL
-async function findBlockId(): Promise<string | null> {
-  const packageJsonPath = path.join(process.cwd(), "package.json");
-
-  if (fs.existsSync(packageJsonPath)) {
-    try {
-      const packageJson = JSON.parse(fs.readFileSync(packageJsonPath, "utf8"));
-
-      // Look for block ID in package.json name or description
-      if (packageJson.name && packageJson.name.startsWith("block-")) {
-        return packageJson.name.replace("block-", "");
-      }
-
-      // Look in description for block ID pattern
-      if (packageJson.description) {
-        const match = packageJson.description.match(
-          /block[:\s]+([a-f0-9]{24})/i
-        );
-        if (match) {
-          return match[1];
-        }
-      }
-    } catch (error) {
-      console.warn(chalk.yellow("⚠️  Could not parse package.json"));
-    }
-  }
-
-  // Try to extract from git remote URL
-  try {
-    const gitManager = new GitManager();
-    const remoteUrl = await gitManager.getRemoteUrl();
-
-    if (remoteUrl) {
-      const match = remoteUrl.match(/block-([a-f0-9]{24})/);
-      if (match) {
-        return match[1];
-      }
-    }
-  } catch (error) {
-    // Ignore git errors
-  }
-
-  return null;
-}
+import { findBlockId } from "../utils/block";
+import { confirm } from "../utils/prompt";
+import { CliError, CancelledError } from "../utils/errors";
+import { log, progress, result, fail } from "../utils/output";
+import { resolveBlockFile } from "../utils/props-parser";
+import { runPropsPreflight } from "../utils/validate";
+import { runLocalBuildPreflight } from "../utils/local-build";
+import { showBuildLogTail } from "../utils/logs";
+import {
+  waitForBuild,
+  reportBuildResult,
+  parseBuildTimeout,
+  buildFailure,
+} from "../utils/build";
 
 interface PublishOptions {
   agent?: boolean;
+  wait?: boolean;
+  timeout?: string;
+  skipValidation?: boolean;
+  localBuild?: boolean;
 }
 
 export async function publishCommand(
@@ -81,12 +32,14 @@ export async function publishCommand(
     // Check authentication first
     requireAuthentication();
 
+    const timeout = parseBuildTimeout(options.timeout);
+
     const user = getAuthenticatedUser();
-    console.log(chalk.blue("🚀 Publishing block to marketplace..."));
-    console.log(
+    log(chalk.blue("🚀 Publishing block to marketplace..."));
+    log(
       chalk.gray(`   User: ${user?.fullName || user?.email || "Unknown"}`)
     );
-    console.log(
+    log(
       chalk.gray(`   Agent insertable: ${options.agent ? "Yes" : "No"}`)
     );
 
@@ -95,156 +48,178 @@ export async function publishCommand(
     const isGitRepo = await gitManager.isGitRepository();
 
     if (!isGitRepo) {
-      console.error(
-        chalk.red(
-          "❌ Not a git repository. Please run this command from a block repository."
-        )
+      throw new CliError(
+        "Not a git repository. Please run this command from a block repository."
       );
-      process.exit(1);
     }
 
     // Get repository information
     const repoInfo = await gitManager.getRepositoryInfo();
-    console.log(chalk.gray(`   Current branch: ${repoInfo.branch}`));
-    console.log(chalk.gray(`   Remote URL: ${repoInfo.remoteUrl}`));
+    log(chalk.gray(`   Current branch: ${repoInfo.branch}`));
+    log(chalk.gray(`   Remote URL: ${repoInfo.remoteUrl}`));
 
     // Find block ID
     const blockId = await findBlockId();
     if (!blockId) {
-      console.error(
-        chalk.red("❌ Could not determine block ID from repository.")
-      );
-      console.error(
+      log(
         chalk.yellow(
-          "   Make sure you are in a block repository created with mexty"
+          "   Make sure you are in a block repository with a .mexty/block.json manifest"
         )
       );
-      process.exit(1);
+      throw new CliError("Could not determine block ID from repository.");
+    }
+
+    log(chalk.gray(`   Block ID: ${blockId}`));
+    const gitUrl = repoInfo.remoteUrl;
+
+    // Check the props before anything is pushed or built
+    if (!options.skipValidation) {
+      runPropsPreflight(resolveBlockFile());
     }
 
-    console.log(chalk.gray(`   Block ID: ${blockId}`));
+    // Catch build errors before the server build
+    if (options.localBuild) {
+      const root = (await gitManager.getRepositoryRoot()) || process.cwd();
+      await runLocalBuildPreflight(root);
+    }
 
     // Check for uncommitted changes
     if (repoInfo.hasChanges) {
-      console.log(chalk.yellow("⚠️  You have uncommitted changes."));
-      console.log(
+      log(chalk.yellow("⚠️  You have uncommitted changes."));
+      log(
         chalk.gray("   Please commit your changes before publishing:")
       );
-      console.log(
+      log(
         chalk.gray('   git add . && git commit -m "Your commit message"')
       );
 
       const proceed = await confirm("Do you want to continue anyway?");
       if (!proceed) {
-        console.log(chalk.yellow("🚫 Publishing cancelled."));
-        return;
+        throw new CancelledError("Publishing cancelled.");
       }
     }
 
-    // Ask user to push changes
-    console.log(chalk.blue("\n📤 Push your changes to GitHub:"));
-    console.log(chalk.gray(`   git push origin ${repoInfo.branch}`));
-
-    const pushed = await confirm("Have you pushed your changes to GitHub?");
-    if (!pushed) {
-      console.log(
-        chalk.yellow(
-          "🚫 Please push your changes first and then run publish again."
-        )
-      );
-      return;
+    // Only ask about pushing when git can't tell that the branch is pushed
+    if (await gitManager.isPushed()) {
+      log(chalk.green(`✅ Branch ${repoInfo.branch} is pushed`));
+    } else {
+      log(chalk.blue("\n📤 Push your changes to GitHub:"));
+      log(chalk.gray(`   git push origin ${repoInfo.branch}`));
+
+      const pushed = await confirm("Have you pushed your changes to GitHub?");
+      if (!pushed) {
+        throw new CancelledError(
+          "Please push your changes first and then run publish again."
+        );
+      }
     }
 
     // Trigger save and bundle
-    console.log(chalk.yellow("📡 Triggering build and bundle process..."));
+    log(chalk.yellow("📡 Triggering build and bundle process..."));
 
+    // The last build as the server knows it, to tell the next one apart
+    const previous = options.wait ? await apiClient.getBlock(blockId) : undefined;
+    let bundle: any;
     try {
-      const result = await apiClient.saveAndBundle({ blockId });
+      bundle = await apiClient.saveAndBundle({ blockId });
+    } catch (buildError: any) {
+      log(chalk.yellow(`   Check the build log: mexty logs ${blockId}`));
+      throw buildError;
+    }
+
+    log(chalk.green("✅ Block bundled successfully!"));
+    log(chalk.gray(`   Bundle Path: ${bundle.bundlePath}`));
+    log(chalk.gray(`   Federation URL: ${bundle.federationUrl}`));
 
-      console.log(chalk.green("✅ Block bundled successfully!"));
-      console.log(chalk.gray(`   Bundle Path: ${result.bundlePath}`));
-      console.log(chalk.gray(`   Federation URL: ${result.federationUrl}`));
+    if (bundle.message) {
+      log(chalk.blue(`   ${bundle.message}`));
+    }
+    progress("build-triggered", {
+      blockId,
+      bundlePath: bundle.bundlePath,
+      federationUrl: bundle.federationUrl,
+    });
 
-      if (result.message) {
-        console.log(chalk.blue(`   ${result.message}`));
+    // Don't publish a block whose build is failing
+    if (options.wait) {
+      log(chalk.yellow("\n⏳ Waiting for the build to finish..."));
+      const block = await waitForBuild(blockId, {
+        previous,
+        timeout,
+      });
+      if (!reportBuildResult(block)) {
+        const logTail = await showBuildLogTail(blockId);
+        log(chalk.yellow("   Block was not published to marketplace."));
+        throw buildFailure(blockId, block, logTail);
       }
+    }
+
+    // Update sharing scope to publish to marketplace (free only)
+    log(chalk.blue("\n🌐 Publishing to marketplace..."));
+
+    let scope: string[];
+    try {
+      // Get current block to check existing scope
+      const block = await apiClient.getBlock(blockId);
+      const currentScope = block?.scope || ["user-store"];
 
-      // Update sharing scope to publish to marketplace (free only)
-      console.log(chalk.blue("\n🌐 Publishing to marketplace..."));
+      // Add published-store to scope if not already present
+      scope = [...new Set([...currentScope, "user-store", "published-store"])];
 
+      await apiClient.updateBlockSharing(blockId, scope);
+      log(chalk.green("✅ Block published to marketplace (free)"));
+    } catch (sharingError: any) {
+      log(
+        chalk.yellow(
+          "   Block was built successfully but not published to marketplace."
+        )
+      );
+      log(chalk.gray("   You can try publishing again or contact support."));
+      sharingError.message = `Failed to publish to marketplace: ${sharingError.message}`;
+      throw sharingError;
+    }
+
+    // Update agent insertability if requested
+    let agentInsertable: boolean | undefined;
+    if (options.agent) {
+      log(chalk.blue("🤖 Making block insertable by AI agents..."));
       try {
-        // Get current block to check existing scope
-        const block = await apiClient.getBlock(blockId);
-        const currentScope = block?.scope || ["user-store"];
-
-        // Add published-store to scope if not already present
-        const newScope = [
-          ...new Set([...currentScope, "user-store", "published-store"]),
-        ];
-
-        await apiClient.updateBlockSharing(blockId, newScope);
-        console.log(chalk.green("✅ Block published to marketplace (free)"));
-
-        // Update agent insertability if requested
-        if (options.agent) {
-          console.log(chalk.blue("🤖 Making block insertable by AI agents..."));
-          try {
-            await apiClient.updateBlockAgentInsertable(blockId, true);
-            console.log(chalk.green("✅ Block is now insertable by AI agents"));
-          } catch (agentError: any) {
-            // This might fail if user is not Mext staff, but that's okay
-            console.log(
-              chalk.yellow(
-                "⚠️  Could not set agent insertability (requires Mext staff permissions)"
-              )
-            );
-            console.log(
-              chalk.gray(
-                `   Error: ${agentError.message || "Permission denied"}`
-              )
-            );
-          }
-        }
-      } catch (sharingError: any) {
-        console.error(
-          chalk.red("❌ Failed to publish to marketplace:"),
-          sharingError.message
-        );
-        console.log(
+        await apiClient.updateBlockAgentInsertable(blockId, true);
+        agentInsertable = true;
+        log(chalk.green("✅ Block is now insertable by AI agents"));
+      } catch (agentError: any) {
+        // This might fail if user is not Mext staff, but that's okay
+        agentInsertable = false;
+        log(
           chalk.yellow(
-            "   Block was built successfully but not published to marketplace."
+            "⚠️  Could not set agent insertability (requires Mext staff permissions)"
           )
         );
-        console.log(
-          chalk.gray("   You can try publishing again or contact support.")
-        );
-        return;
+        log(chalk.gray(`   Error: ${agentError.message || "Permission denied"}`));
       }
+    }
 
-      // Success message
-      console.log(
-        chalk.green("\n🎉 Block published to marketplace successfully!")
-      );
-      console.log(chalk.blue("Your block is now:"));
-      console.log(chalk.gray("  ✓ Available for free download by anyone"));
-      console.log(chalk.gray("  ✓ Discoverable in the marketplace"));
-      if (options.agent) {
-        console.log(
-          chalk.gray("  ✓ Insertable by AI agents (if you have permissions)")
-        );
-      }
-      console.log(
-        chalk.gray(
-          `  ✓ Viewable at: https://mexty.ai/preview.html?blockId=${blockId}`
-        )
-      );
-    } catch (buildError: any) {
-      console.error(chalk.red(`❌ Build failed: ${buildError.message}`));
-      console.log(chalk.yellow("   Check the server logs for more details."));
-      process.exit(1);
+    // Success message
+    const previewUrl = `https://mexty.ai/preview.html?blockId=${blockId}`;
+    log(chalk.green("\n🎉 Block published to marketplace successfully!"));
+    log(chalk.blue("Your block is now:"));
+    log(chalk.gray("  ✓ Available for free download by anyone"));
+    log(chalk.gray("  ✓ Discoverable in the marketplace"));
+    if (options.agent) {
+      log(chalk.gray("  ✓ Insertable by AI agents (if you have permissions)"));
     }
+    log(chalk.gray(`  ✓ Viewable at: ${previewUrl}`));
+
+    result({
+      blockId,
+      gitUrl,
+      bundlePath: bundle.bundlePath,
+      federationUrl: bundle.federationUrl,
+      scope,
+      agentInsertable,
+      previewUrl,
+    });
   } catch (error: any) {
-    console.error(chalk.red(`❌ Failed to publish block: ${error.message}`));
-    process.exit(1);
+    fail(error, "Failed to publish block");
   }
 }
@@ -0,0 +1,58 @@
+import chalk from "chalk";
+import { GitManager } from "../utils/git";
+import { pullRemoteChanges } from "../utils/pull";
+import { CliError } from "../utils/errors";
+import { log, result, fail } from "../utils/output";
+
+interface PullOptions {
+  abort?: boolean;
+}
+
+export async function pullCommand(options: PullOptions = {}): Promise<void> {
+  try {
+    const gitManager = new GitManager();
+    if (!(await gitManager.isGitRepository())) {
+      throw new CliError(
+        "Not a git repository. Please run this command from a block repository."
+      );
+    }
+
+    if (options.abort) {
+      if (!(await gitManager.isRebaseInProgress())) {
+        throw new CliError("No pull in progress.");
+      }
+      await gitManager.git.rebase(["--abort"]);
+      log(chalk.green("✅ Pull aborted, the branch is back where it was"));
+      result({ aborted: true });
+      return;
+    }
+
+    if (await gitManager.isRebaseInProgress()) {
+      log(chalk.yellow("   Finish it with git rebase --continue, or run: mexty pull --abort"));
+      throw new CliError("A previous pull stopped with conflicts.");
+    }
+
+    if (!(await gitManager.getRemoteUrl())) {
+      throw new CliError("This repository has no origin remote.");
+    }
+
+    log(chalk.yellow("📡 Fetching from origin..."));
+    const status = await gitManager.getRemoteStatus();
+    log(chalk.gray(`   Branch: ${status.branch}`));
+
+    if (!status.remoteBranch) {
+      log(chalk.green(`✅ ${status.branch} has not been pushed yet, nothing to pull`));
+    } else if (status.behind === 0) {
+      log(chalk.green("✅ Already up to date"));
+    }
+
+    const pull = await pullRemoteChanges(gitManager, status);
+    if (status.ahead > 0) {
+      log(chalk.gray(`   ${status.ahead} local commit(s) not pushed yet, run: mexty save`));
+    }
+
+    result({ ...pull, ahead: status.ahead });
+  } catch (error: any) {
+    fail(error, "Failed to pull changes");
+  }
+}
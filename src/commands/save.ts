@@ -1,86 +1,74 @@
 import chalk from "chalk";
-import fs from "fs";
 import path from "path";
 import { apiClient } from "../utils/api";
-import { GitManager } from "../utils/git";
-import { createInterface } from "readline";
+import { ChangedFile, GitManager, RemoteStatus } from "../utils/git";
+import { pullRemoteChanges } from "../utils/pull";
 import { requireAuthentication, getAuthenticatedUser } from "../utils/auth";
+import { findBlockId } from "../utils/block";
+import { confirm, prompt, selectMany } from "../utils/prompt";
+import { CancelledError, CliError, ValidationError } from "../utils/errors";
+import { log, progress, result, fail } from "../utils/output";
+import { resolveBlockFile } from "../utils/props-parser";
+import { runPropsPreflight } from "../utils/validate";
+import { runLocalBuildPreflight } from "../utils/local-build";
+import { showBuildLogTail } from "../utils/logs";
+import { outgoingBlobs, scanBlobs, printScanFindings, printScanHelp } from "../utils/scan";
+import {
+  waitForBuild,
+  reportBuildResult,
+  parseBuildTimeout,
+  buildFailure,
+} from "../utils/build";
 
-// Simple prompt function
-async function prompt(
-  question: string,
-  defaultValue?: string
-): Promise<string> {
-  return new Promise((resolve) => {
-    const rl = createInterface({
-      input: process.stdin,
-      output: process.stdout,
-    });
-
-    const promptText = defaultValue
-      ? `${question} (${defaultValue}): `
-      : `${question}: `;
-
-    rl.question(promptText, (answer) => {
-      rl.close();
-      resolve(answer.trim() || defaultValue || "");
-    });
-  });
+interface SaveOptions {
+  wait?: boolean;
+  timeout?: string;
+  skipValidation?: boolean;
+  localBuild?: boolean;
+  message?: string;
+  amend?: boolean;
+  interactive?: boolean;
 }
 
-// Extract block ID from package.json or git URL
-async function findBlockId(): Promise<string | null> {
-  const packageJsonPath = path.join(process.cwd(), "package.json");
-
-  if (fs.existsSync(packageJsonPath)) {
-    try {
-      const packageJson = JSON.parse(fs.readFileSync(packageJsonPath, "utf8"));
-
-      // Look for block ID in package.json name or description
-      if (packageJson.name && packageJson.name.startsWith("block-")) {
-        return packageJson.name.replace("block-", "");
-      }
-
-      // Look in description for block ID pattern
-      if (packageJson.description) {
-        const match = packageJson.description.match(
-          /block[:\s]+([a-f0-9]{24})/i
-        );
-        if (match) {
-          return match[1];
-        }
-      }
-    } catch (error) {
-      console.warn(chalk.yellow("⚠️  Could not parse package.json"));
-    }
-  }
-
-  // Try to extract from git remote URL
-  try {
-    const gitManager = new GitManager();
-    const remoteUrl = await gitManager.getRemoteUrl();
-
-    if (remoteUrl) {
-      const match = remoteUrl.match(/block-([a-f0-9]{24})/);
-      if (match) {
-        return match[1];
-      }
-    }
-  } catch (error) {
-    // Ignore git errors
-  }
+// e.g. "M src/block.tsx  +12 -3"
+function formatFile(file: ChangedFile): string {
+  const marker = {
+    modified: "M",
+    added: "A",
+    deleted: "D",
+    renamed: "R",
+    untracked: "?",
+  }[file.status];
+  const name = file.from ? `${file.from} -> ${file.path}` : file.path;
+  return `${marker} ${name}  ${chalk.green(`+${file.additions}`)} ${chalk.red(`-${file.deletions}`)}`;
+}
 
-  return null;
+// Changed files at or below the given paths (relative to the current directory)
+function filterByPaths(changes: ChangedFile[], paths: string[], root: string): ChangedFile[] {
+  const prefixes = paths.map((entry) =>
+    path.relative(root, path.resolve(entry)).split(path.sep).join("/")
+  );
+  return changes.filter((file) =>
+    prefixes.some(
+      (prefix) =>
+        prefix === "" || file.path === prefix || file.path.startsWith(`${prefix}/`)
+    )
+  );
 }
 
-export async function saveCommand(): Promise<void> {
+export async function saveCommand(
+  paths: string[] = [],
+  options: SaveOptions = {}
+): Promise<void> {
   try {
     // Check authentication first
     requireAuthentication();
 
+    const timeout = parseBuildTimeout(options.timeout);
+
     const user = getAuthenticatedUser();
-    console.log(chalk.blue("💾 Saving and publishing block..."));
-    console.log(
+    log(chalk.blue("💾 Saving and publishing block..."));
+    log(
       chalk.gray(`   User: ${user?.fullName || user?.email || "Unknown"}`)
     );
 
@@ -89,125 +77,269 @@ export async function saveCommand(): Promise<void> {
     const isGitRepo = await gitManager.isGitRepository();
 
     if (!isGitRepo) {
-      console.error(
-        chalk.red(
-          "❌ Not a git repository. Please run this command from a block repository."
-        )
+      throw new CliError(
+        "Not a git repository. Please run this command from a block repository."
       );
-      process.exit(1);
     }
 
     // Get repository information
     const repoInfo = await gitManager.getRepositoryInfo();
-    console.log(chalk.gray(`   Current branch: ${repoInfo.branch}`));
-    console.log(chalk.gray(`   Remote URL: ${repoInfo.remoteUrl}`));
+    const root = (await gitManager.getRepositoryRoot()) || process.cwd();
+    log(chalk.gray(`   Current branch: ${repoInfo.branch}`));
+    log(chalk.gray(`   Remote URL: ${repoInfo.remoteUrl}`));
 
     // Find block ID
     const blockId = await findBlockId();
     if (!blockId) {
-      console.error(
-        chalk.red("❌ Could not determine block ID from repository.")
-      );
-      console.error(
+      log(
         chalk.yellow(
-          "   Make sure you are in a block repository created with mexty"
+          "   Make sure you are in a block repository with a .mexty/block.json manifest"
         )
       );
-      process.exit(1);
+      throw new CliError("Could not determine block ID from repository.");
     }
 
-    console.log(chalk.gray(`   Block ID: ${blockId}`));
+    log(chalk.gray(`   Block ID: ${blockId}`));
+    const gitUrl = repoInfo.remoteUrl;
 
-    // Check if there are changes to commit
-    if (repoInfo.hasChanges) {
-      console.log(
-        chalk.yellow("📝 Found uncommitted changes, preparing to commit...")
-      );
+    // Check the props before anything is pushed or built
+    if (!options.skipValidation) {
+      runPropsPreflight(resolveBlockFile());
+    }
 
-      // Get commit message from user
-      const commitMessage = await prompt(
-        "Enter commit message",
-        "Update block content"
-      );
+    // Catch build errors before a commit, push and server build
+    if (options.localBuild) {
+      await runLocalBuildPreflight(root);
+    }
 
-      if (!commitMessage.trim()) {
-        console.error(chalk.red("❌ Commit message cannot be empty"));
-        process.exit(1);
-      }
+    if (await gitManager.isRebaseInProgress()) {
+      log(chalk.yellow("   Finish it with git rebase --continue, or run: mexty pull --abort"));
+      throw new CliError("A previous pull stopped with conflicts.");
+    }
 
-      // Stage all changes
-      console.log(chalk.yellow("📋 Staging changes (git add .)..."));
+    // Bring in commits pushed by others first, the push would be rejected
+    let remoteStatus: RemoteStatus | undefined;
+    if (gitUrl) {
+      log(chalk.yellow("📡 Checking origin for new commits..."));
       try {
-        await gitManager.git.add(".");
-        console.log(chalk.green("✅ Changes staged successfully"));
-      } catch (addError: any) {
-        console.error(
-          chalk.red(`❌ Failed to stage changes: ${addError.message}`)
+        remoteStatus = await gitManager.getRemoteStatus();
+      } catch (fetchError: any) {
+        console.warn(
+          chalk.yellow(`⚠️  Could not check origin: ${fetchError.message}`)
+        );
+      }
+
+      if (remoteStatus?.remoteBranch && remoteStatus.behind > 0) {
+        console.warn(
+          chalk.yellow(
+            `⚠️  ${remoteStatus.remoteBranch} has ${remoteStatus.behind} commit(s) you don't have yet`
+          )
         );
-        process.exit(1);
+        const pull = await confirm("Pull them before saving?", true);
+        if (!pull) {
+          throw new CancelledError(
+            "The push would be rejected. Pull first: mexty pull"
+          );
+        }
+        await pullRemoteChanges(gitManager, remoteStatus);
+      }
+    }
+
+    // The last commit can only be amended while it is not on a remote. The
+    // remote-tracking branches decide, so this also holds when origin could
+    // not be checked: then they are as of the last fetch.
+    if (options.amend && (await gitManager.isHeadOnRemote())) {
+      throw new ValidationError(
+        "The last commit is already pushed, amending it would need a force push"
+      );
+    }
+
+    // Pick the files to commit: path arguments, the picker, or everything
+    const changes = await gitManager.getChangedFiles();
+    let selected = changes;
+    if (paths.length > 0) {
+      selected = filterByPaths(changes, paths, root);
+      if (selected.length === 0) {
+        throw new ValidationError(`No changes in ${paths.join(", ")}`);
       }
+    } else if (options.interactive && changes.length > 0) {
+      selected = await selectMany(
+        "Files to commit",
+        changes.map((file) => ({
+          name: formatFile(file),
+          value: file,
+          checked: true,
+        })),
+        "file paths: mexty save <paths...>"
+      );
+    }
+
+    // Nothing that leaks a secret or bloats the repository leaves this
+    // machine. The selected files are staged so the scan reads exactly what
+    // gets committed, next to the commits that are not pushed yet.
+    await gitManager.stageFiles(selected);
+    const scan = await scanBlobs(
+      gitManager,
+      root,
+      await outgoingBlobs(
+        gitManager,
+        selected.filter((file) => file.status !== "deleted").map((file) => file.path)
+      )
+    );
+    if (scan.findings.length > 0) {
+      log(chalk.red(`\n🔐 Found ${scan.findings.length} problem(s) in the files to push:`));
+      printScanFindings(scan.findings);
+      printScanHelp();
+      throw new ValidationError(
+        "Push blocked by the secret and file size scan. Nothing was committed, the files stay staged.",
+        { findings: scan.findings }
+      );
+    }
+
+    const commit = selected.length > 0 || !!options.amend;
+    let commitMessage = options.message;
+    if (commit && commitMessage === undefined && !options.amend) {
+      commitMessage = await prompt("Enter commit message", "Update block content");
+    }
+    if (commitMessage !== undefined && !commitMessage.trim()) {
+      throw new CliError("Commit message cannot be empty");
+    }
+
+    // Show what is about to happen before touching anything
+    const toPush =
+      (remoteStatus?.ahead || 0) + (commit && !options.amend ? 1 : 0);
+    log(chalk.blue("\n📋 Summary"));
+    if (commit) {
+      log(
+        chalk.gray(
+          `   ${options.amend ? "Amend last commit" : "Commit"}: ${
+            commitMessage ? `"${commitMessage}"` : "(message unchanged)"
+          }`
+        )
+      );
+      for (const file of selected) {
+        log(chalk.gray(`     ${formatFile(file)}`));
+      }
+    } else {
+      log(chalk.gray("   Nothing to commit"));
+    }
+    const skipped = changes.length - selected.length;
+    if (skipped > 0) {
+      log(chalk.yellow(`   ${skipped} changed file(s) stay uncommitted`));
+    }
+    log(
+      chalk.gray(
+        remoteStatus?.remoteBranch
+          ? `   Push: ${toPush} commit(s) to ${remoteStatus.remoteBranch}`
+          : `   Push: ${repoInfo.branch} to origin`
+      )
+    );
+    log(chalk.gray(`   Build: block ${blockId}\n`));
 
-      // Commit changes
-      console.log(chalk.yellow(`💬 Committing changes: "${commitMessage}"...`));
+    if (commit) {
+      log(
+        chalk.yellow(
+          options.amend
+            ? "💬 Amending the last commit..."
+            : `💬 Committing ${selected.length} file(s): "${commitMessage}"...`
+        )
+      );
       try {
-        await gitManager.git.commit(commitMessage);
-        console.log(chalk.green("✅ Changes committed successfully"));
+        await gitManager.commitFiles(selected, {
+          message: commitMessage,
+          amend: options.amend,
+        });
+        log(chalk.green("✅ Changes committed successfully"));
+        progress("committed", {
+          blockId,
+          message: commitMessage,
+          amend: !!options.amend,
+          files: selected.map((file) => file.path),
+        });
       } catch (commitError: any) {
-        console.error(
-          chalk.red(`❌ Failed to commit changes: ${commitError.message}`)
-        );
-        process.exit(1);
+        throw new CliError(`Failed to commit changes: ${commitError.message}`);
       }
     } else {
-      console.log(chalk.green("✅ No uncommitted changes found"));
+      log(chalk.green("✅ No uncommitted changes found"));
     }
 
+    // The last build as the server knows it, to tell the next one apart
+    const previous = options.wait ? await apiClient.getBlock(blockId) : undefined;
+
     // Push changes to remote
-    console.log(
+    log(
       chalk.yellow(`📤 Pushing changes to remote (${repoInfo.branch})...`)
     );
     try {
       await gitManager.pushToRemote();
-      console.log(chalk.green("✅ Changes pushed successfully"));
+      log(chalk.green("✅ Changes pushed successfully"));
+      progress("pushed", { blockId, gitUrl, branch: repoInfo.branch });
     } catch (pushError: any) {
-      console.error(
-        chalk.red(`❌ Failed to push changes: ${pushError.message}`)
-      );
-      console.log(
+      log(
         chalk.yellow(
           "   Please check your network connection and GitHub permissions"
         )
       );
-      process.exit(1);
+      throw new CliError(`Failed to push changes: ${pushError.message}`);
     }
 
     // Trigger save and bundle
-    console.log(chalk.yellow("🏗️  Triggering build and bundle process..."));
+    log(chalk.yellow("🏗️  Triggering build and bundle process..."));
 
+    let bundle: any;
     try {
-      const result = await apiClient.saveAndBundle({ blockId });
+      bundle = await apiClient.saveAndBundle({ blockId });
+    } catch (buildError: any) {
+      log(chalk.yellow(`   Check the build log: mexty logs ${blockId}`));
+      throw buildError;
+    }
 
-      console.log(chalk.green("🎉 Block saved and published successfully!"));
-      console.log(chalk.gray(`   Bundle Path: ${result.bundlePath}`));
-      console.log(chalk.gray(`   Federation URL: ${result.federationUrl}`));
+    log(chalk.green("🎉 Block saved and published successfully!"));
+    log(chalk.gray(`   Bundle Path: ${bundle.bundlePath}`));
+    log(chalk.gray(`   Federation URL: ${bundle.federationUrl}`));
 
-      if (result.message) {
-        console.log(chalk.blue(`   ${result.message}`));
-      }
+    if (bundle.message) {
+      log(chalk.blue(`   ${bundle.message}`));
+    }
 
-      console.log(
-        chalk.blue("\n📋 Your block is now building in the background.")
-      );
-      console.log(
-        chalk.gray("   You can check the build status in the web interface.")
-      );
-    } catch (buildError: any) {
-      console.error(chalk.red(`❌ Build failed: ${buildError.message}`));
-      console.log(chalk.yellow("   Check the server logs for more details."));
-      process.exit(1);
+    if (options.wait) {
+      progress("build-triggered", {
+        blockId,
+        bundlePath: bundle.bundlePath,
+        federationUrl: bundle.federationUrl,
+      });
+      log(chalk.yellow("\n⏳ Waiting for the build to finish..."));
+      const block = await waitForBuild(blockId, {
+        previous,
+        timeout,
+      });
+      if (!reportBuildResult(block)) {
+        const logTail = await showBuildLogTail(blockId);
+        throw buildFailure(blockId, block, logTail);
+      }
+      result({
+        blockId,
+        gitUrl,
+        buildStatus: block.buildStatus,
+        bundlePath: block.bundlePath || bundle.bundlePath,
+        federationUrl: block.federationUrl || bundle.federationUrl,
+      });
+      return;
     }
+
+    log(
+      chalk.blue("\n📋 Your block is now building in the background.")
+    );
+    log(
+      chalk.gray(`   Check the build status with: mexty status ${blockId} --wait`)
+    );
+    result({
+      blockId,
+      gitUrl,
+      bundlePath: bundle.bundlePath,
+      federationUrl: bundle.federationUrl,
+    });
   } catch (error: any) {
-    console.error(chalk.red(`❌ Failed to save block: ${error.message}`));
-    process.exit(1);
+    fail(error, "Failed to save block");
   }
 }
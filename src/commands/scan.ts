@@ -0,0 +1,84 @@
+import chalk from "chalk";
+import path from "path";
+import { GitBlob, GitManager } from "../utils/git";
+import { CliError, ValidationError } from "../utils/errors";
+import { log, result, fail } from "../utils/output";
+import {
+  DEFAULT_MAX_FILE_SIZE,
+  printScanFindings,
+  printScanHelp,
+  outgoingBlobs,
+  scanBlobs,
+} from "../utils/scan";
+
+interface ScanOptions {
+  all?: boolean;
+  maxSize?: string;
+}
+
+export async function scanCommand(
+  paths: string[] = [],
+  options: ScanOptions = {}
+): Promise<void> {
+  try {
+    const gitManager = new GitManager();
+    const root = await gitManager.getRepositoryRoot();
+    if (!root) {
+      throw new CliError(
+        "Not a git repository. Please run this command from a block repository."
+      );
+    }
+
+    let maxFileSize = DEFAULT_MAX_FILE_SIZE;
+    if (options.maxSize !== undefined) {
+      const megabytes = Number(options.maxSize);
+      if (!Number.isFinite(megabytes) || megabytes <= 0) {
+        throw new ValidationError(`Invalid --max-size "${options.maxSize}": expected megabytes`);
+      }
+      maxFileSize = megabytes * 1024 * 1024;
+    }
+
+    // By default what a push would send now: staged changes and unpushed
+    // commits. save stages the files it commits before scanning them.
+    let blobs: GitBlob[];
+    if (options.all || paths.length > 0) {
+      blobs = await gitManager.getIndexBlobs();
+    } else {
+      blobs = await outgoingBlobs(gitManager, await gitManager.getStagedPaths());
+      const status = await gitManager.git.status();
+      if (status.files.some((file) => file.working_dir.trim() !== "")) {
+        log(chalk.gray("   Changes that are not staged are not scanned, stage them with git add"));
+      }
+    }
+
+    if (paths.length > 0) {
+      const prefixes = paths.map((entry) =>
+        path.relative(root, path.resolve(entry)).split(path.sep).join("/")
+      );
+      blobs = blobs.filter((blob) =>
+        prefixes.some(
+          (prefix) => prefix === "" || blob.path === prefix || blob.path.startsWith(`${prefix}/`)
+        )
+      );
+    }
+
+    log(chalk.blue("🔐 Scanning for secrets and large files..."));
+    const scan = await scanBlobs(gitManager, root, blobs, { maxFileSize });
+    if (scan.ignored > 0) {
+      log(chalk.gray(`   ${scan.ignored} file(s) skipped through .mextyignore`));
+    }
+
+    if (scan.findings.length > 0) {
+      printScanFindings(scan.findings);
+      printScanHelp();
+      throw new ValidationError(`${scan.findings.length} problem(s) found`, {
+        findings: scan.findings,
+      });
+    }
+
+    log(chalk.green(`✅ No secrets or large files in ${scan.scanned} file(s)`));
+    result({ scanned: scan.scanned, ignored: scan.ignored, findings: [] });
+  } catch (error: any) {
+    fail(error, "Scan failed");
+  }
+}
@@ -0,0 +1,177 @@
+import chalk from "chalk";
+import { apiClient, BLOCK_SCOPES, BlockScope } from "../utils/api";
+import { requireAuthentication } from "../utils/auth";
+import { findBlockId } from "../utils/block";
+import { confirm, isInteractive, selectMany } from "../utils/prompt";
+import { CliError, CancelledError, ValidationError } from "../utils/errors";
+import { log, result, fail } from "../utils/output";
+
+interface ShareOptions {
+  add?: string;
+  remove?: string;
+  agent?: boolean;
+}
+
+const SCOPE_DESCRIPTIONS: Record<BlockScope, string> = {
+  library: "your library",
+  "user-store": "your store",
+  "published-store": "the public marketplace",
+};
+
+// Parse a comma separated --add / --remove list
+function parseScopes(value: string | undefined, option: string): BlockScope[] {
+  if (!value) {
+    return [];
+  }
+
+  const scopes = value
+    .split(",")
+    .map((scope) => scope.trim())
+    .filter(Boolean);
+  const unknown = scopes.filter(
+    (scope) => !(BLOCK_SCOPES as readonly string[]).includes(scope)
+  );
+  if (unknown.length > 0) {
+    throw new ValidationError(
+      `${option}: unknown scope ${unknown.join(", ")} (expected ${BLOCK_SCOPES.join(", ")})`
+    );
+  }
+  return scopes as BlockScope[];
+}
+
+function printScope(scope: BlockScope[], agentInsertable: boolean): void {
+  log(chalk.gray("   Scope:"));
+  for (const entry of BLOCK_SCOPES) {
+    const marker = scope.includes(entry) ? chalk.green("✓") : chalk.gray("·");
+    log(`     ${marker} ${entry.padEnd(16)} ${chalk.gray(SCOPE_DESCRIPTIONS[entry])}`);
+  }
+  log(chalk.gray(`   Agent insertable: ${agentInsertable ? "Yes" : "No"}`));
+}
+
+function printDiff(
+  before: BlockScope[],
+  after: BlockScope[],
+  agentBefore: boolean,
+  agentAfter: boolean
+): void {
+  log(chalk.blue("\n📝 Changes:"));
+  for (const entry of BLOCK_SCOPES) {
+    if (!before.includes(entry) && after.includes(entry)) {
+      log(chalk.green(`   + ${entry}`));
+    } else if (before.includes(entry) && !after.includes(entry)) {
+      log(chalk.red(`   - ${entry}`));
+    } else if (after.includes(entry)) {
+      log(chalk.gray(`     ${entry}`));
+    }
+  }
+  if (agentBefore !== agentAfter) {
+    log(
+      agentAfter
+        ? chalk.green("   + agent insertable")
+        : chalk.red("   - agent insertable")
+    );
+  }
+}
+
+export async function shareCommand(
+  blockId?: string,
+  options: ShareOptions = {}
+): Promise<void> {
+  try {
+    // Check authentication first
+    requireAuthentication();
+
+    const add = parseScopes(options.add, "--add");
+    const remove = parseScopes(options.remove, "--remove");
+    const both = add.filter((scope) => remove.includes(scope));
+    if (both.length > 0) {
+      throw new ValidationError(
+        `Cannot both add and remove: ${both.join(", ")}`
+      );
+    }
+
+    // Fall back to the block of the current repository
+    if (!blockId) {
+      blockId = (await findBlockId()) || undefined;
+      if (!blockId) {
+        log(chalk.yellow("   Pass a block ID: mexty share <blockId>"));
+        throw new CliError("Could not determine block ID from repository.");
+      }
+    }
+
+    const block = await apiClient.getBlock(blockId);
+    const before = block.scope || [];
+    const agentBefore = !!block.isInsertableByAgent;
+
+    log(chalk.blue(`📦 ${block.title || block._doc?.title}`));
+    log(chalk.gray(`   Block ID: ${blockId}`));
+    printScope(before, agentBefore);
+
+    const hasFlags =
+      add.length > 0 || remove.length > 0 || options.agent !== undefined;
+
+    // Without flags, only show the sharing state (or ask when interactive)
+    let after: BlockScope[];
+    if (hasFlags) {
+      after = BLOCK_SCOPES.filter(
+        (scope) =>
+          add.includes(scope) || (before.includes(scope) && !remove.includes(scope))
+      );
+    } else if (isInteractive()) {
+      after = await selectMany(
+        "Where should this block be shared?",
+        BLOCK_SCOPES.map((scope) => ({
+          name: `${scope} (${SCOPE_DESCRIPTIONS[scope]})`,
+          value: scope,
+          checked: before.includes(scope),
+        }))
+      );
+    } else {
+      result({ blockId, scope: before, agentInsertable: agentBefore });
+      return;
+    }
+
+    const agentAfter = options.agent ?? agentBefore;
+    const scopeChanged =
+      after.length !== before.length ||
+      after.some((scope) => !before.includes(scope));
+
+    if (!scopeChanged && agentAfter === agentBefore) {
+      log(chalk.green("\n✅ Nothing to change"));
+      result({ blockId, scope: before, agentInsertable: agentBefore, changed: false });
+      return;
+    }
+
+    if (after.length === 0) {
+      throw new ValidationError(
+        "A block needs at least one scope, use mexty delete to remove it"
+      );
+    }
+
+    printDiff(before, after, agentBefore, agentAfter);
+
+    const proceed = await confirm("Apply these changes?");
+    if (!proceed) {
+      throw new CancelledError("Sharing unchanged.");
+    }
+
+    if (scopeChanged) {
+      await apiClient.updateBlockSharing(blockId, after);
+      log(chalk.green("✅ Scope updated"));
+    }
+    if (agentAfter !== agentBefore) {
+      await apiClient.updateBlockAgentInsertable(blockId, agentAfter);
+      log(
+        chalk.green(
+          agentAfter
+            ? "✅ Block is now insertable by AI agents"
+            : "✅ Block is no longer insertable by AI agents"
+        )
+      );
+    }
+
+    result({ blockId, scope: after, agentInsertable: agentAfter, changed: true });
+  } catch (error: any) {
+    fail(error, "Failed to update sharing");
+  }
+}
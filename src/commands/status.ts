@@ -0,0 +1,65 @@
+import chalk from "chalk";
+import { apiClient } from "../utils/api";
+import { requireAuthentication } from "../utils/auth";
+import { findBlockId } from "../utils/block";
+import { CliError } from "../utils/errors";
+import { log, result, fail } from "../utils/output";
+import {
+  waitForBuild,
+  reportBuildResult,
+  parseBuildTimeout,
+  buildFailure,
+} from "../utils/build";
+
+interface StatusOptions {
+  wait?: boolean;
+  timeout?: string;
+}
+
+export async function statusCommand(
+  blockId?: string,
+  options: StatusOptions = {}
+): Promise<void> {
+  try {
+    // Check authentication first
+    requireAuthentication();
+
+    // Fall back to the block of the current repository
+    if (!blockId) {
+      blockId = (await findBlockId()) || undefined;
+      if (!blockId) {
+        log(chalk.yellow("   Pass a block ID: mexty status <blockId>"));
+        throw new CliError("Could not determine block ID from repository.");
+      }
+    }
+
+    const timeout = parseBuildTimeout(options.timeout);
+
+    let block = await apiClient.getBlock(blockId);
+    log(chalk.blue(`📦 ${block.title || block._doc?.title}`));
+    log(chalk.gray(`   Block ID: ${blockId}`));
+
+    if (
+      options.wait &&
+      (block.buildStatus === "pending" || block.buildStatus === "building")
+    ) {
+      block = await waitForBuild(blockId, { timeout });
+    }
+
+    const succeeded = reportBuildResult(block);
+    if (block.buildStatus === "failed" || (options.wait && !succeeded)) {
+      throw buildFailure(blockId, block);
+    }
+
+    result({
+      blockId,
+      gitUrl: block.gitUrl,
+      buildStatus: block.buildStatus,
+      lastBuilt: block.lastBuilt,
+      bundlePath: block.bundlePath,
+      federationUrl: block.federationUrl,
+    });
+  } catch (error: any) {
+    fail(error, "Failed to get build status");
+  }
+}
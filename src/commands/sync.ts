@@ -0,0 +1,207 @@
+import chalk from "chalk";
+import fs from "fs";
+import path from "path";
+import { apiClient, BlockRegistryEntry } from "../utils/api";
+import { requireAuthentication } from "../utils/auth";
+import { CliError } from "../utils/errors";
+import { log, result, fail } from "../utils/output";
+import {
+  toComponentName,
+  generatePropsDeclaration,
+  generateWrapperModule,
+} from "../utils/types";
+
+interface SyncOptions {
+  out?: string;
+}
+
+interface SyncedComponent {
+  componentName: string;
+  // Name the block is registered under, the block ID when it has none
+  registryName: string;
+  blockId: string;
+  title: string;
+  federationUrl?: string;
+}
+
+const DEFAULT_OUTPUT_DIR = "src/mexty-blocks";
+
+// Output directory from --out, package.json "mexty.syncDir", or the default
+function resolveOutputDir(out?: string): string {
+  if (out) {
+    return path.resolve(process.cwd(), out);
+  }
+
+  const packageJsonPath = path.join(process.cwd(), "package.json");
+  if (fs.existsSync(packageJsonPath)) {
+    try {
+      const packageJson = JSON.parse(fs.readFileSync(packageJsonPath, "utf8"));
+      if (packageJson.mexty?.syncDir) {
+        return path.resolve(process.cwd(), packageJson.mexty.syncDir);
+      }
+    } catch (error) {
+      console.warn(chalk.yellow("⚠️  Could not parse package.json"));
+    }
+  }
+
+  return path.resolve(process.cwd(), DEFAULT_OUTPUT_DIR);
+}
+
+// Write a file only if its content changed. Returns true when written.
+function writeIfChanged(filePath: string, content: string): boolean {
+  if (fs.existsSync(filePath) && fs.readFileSync(filePath, "utf8") === content) {
+    return false;
+  }
+
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  fs.writeFileSync(filePath, content);
+  return true;
+}
+
+// Component names from the previous sync, used to remove stale files
+function readPreviousComponents(registryPath: string): string[] {
+  try {
+    if (fs.existsSync(registryPath)) {
+      const registry = JSON.parse(fs.readFileSync(registryPath, "utf8"));
+      return (registry.components || []).map(
+        (component: SyncedComponent) => component.componentName
+      );
+    }
+  } catch (error) {
+    // Ignore unreadable registry, everything will be regenerated
+  }
+  return [];
+}
+
+// Assign unique TypeScript identifiers, disambiguating collisions with the
+// block ID. The suffix never reaches the runtime lookup, see registryName.
+function assignComponentNames(
+  entries: BlockRegistryEntry[]
+): { entry: BlockRegistryEntry; componentName: string }[] {
+  const used = new Set<string>();
+
+  return [...entries]
+    .sort((a, b) => a.blockId.localeCompare(b.blockId))
+    .map((entry) => {
+      let componentName = toComponentName(entry.componentName || entry.title);
+      if (used.has(componentName)) {
+        componentName = `${componentName}${entry.blockId.slice(-6)}`;
+      }
+      used.add(componentName);
+      return { entry, componentName };
+    })
+    .sort((a, b) => a.componentName.localeCompare(b.componentName));
+}
+
+export async function syncCommand(options: SyncOptions = {}): Promise<void> {
+  try {
+    // Check authentication first
+    requireAuthentication();
+
+    const outputDir = resolveOutputDir(options.out);
+    log(chalk.blue("🔄 Syncing block registry..."));
+    log(
+      chalk.gray(`   Output: ${path.relative(process.cwd(), outputDir) || "."}`)
+    );
+
+    log(chalk.yellow("📡 Fetching registry and props schemas..."));
+    const response = await apiClient.syncRegistry();
+
+    if (!response.success) {
+      throw new CliError(response.message || "Registry sync failed");
+    }
+
+    const entries = Array.isArray(response.registry)
+      ? response.registry
+      : Object.values(response.registry || {});
+
+    log(chalk.green(`✅ Found ${entries.length} block(s)`));
+
+    const components = assignComponentNames(entries);
+    const registryPath = path.join(outputDir, "registry.json");
+    const previous = readPreviousComponents(registryPath);
+
+    let written = 0;
+    let unchanged = 0;
+
+    for (const { entry, componentName } of components) {
+      const declaration = generatePropsDeclaration(
+        componentName,
+        entry.propsSchema,
+        entry.description || entry.title
+      );
+      const filePath = path.join(outputDir, "types", `${componentName}.d.ts`);
+
+      if (writeIfChanged(filePath, declaration)) {
+        written++;
+        log(chalk.gray(`   ✎ ${componentName} (${entry.blockId})`));
+      } else {
+        unchanged++;
+      }
+
+      if (!entry.propsSchema) {
+        log(
+          chalk.yellow(`   ⚠️  ${componentName} has no props schema yet`)
+        );
+      }
+    }
+
+    // Remove declarations for blocks that are no longer accessible
+    const current = new Set(components.map((c) => c.componentName));
+    let removed = 0;
+    for (const componentName of previous) {
+      if (current.has(componentName)) {
+        continue;
+      }
+      const stalePath = path.join(outputDir, "types", `${componentName}.d.ts`);
+      if (fs.existsSync(stalePath)) {
+        fs.unlinkSync(stalePath);
+        removed++;
+        log(chalk.gray(`   ✗ ${componentName}`));
+      }
+    }
+
+    const synced: SyncedComponent[] = components.map(
+      ({ entry, componentName }) => ({
+        componentName,
+        registryName: entry.componentName || entry.blockId,
+        blockId: entry.blockId,
+        title: entry.title,
+        federationUrl: entry.federationUrl,
+      })
+    );
+
+    if (
+      writeIfChanged(
+        path.join(outputDir, "index.ts"),
+        generateWrapperModule(synced)
+      )
+    ) {
+      written++;
+    }
+    if (
+      writeIfChanged(
+        registryPath,
+        JSON.stringify({ components: synced }, null, 2) + "\n"
+      )
+    ) {
+      written++;
+    }
+
+    log(chalk.green("🎉 Registry synced successfully!"));
+    log(
+      chalk.gray(
+        `   ${written} file(s) updated, ${unchanged} unchanged, ${removed} removed`
+      )
+    );
+    result({
+      outputDir,
+      components: synced,
+      written,
+      unchanged,
+      removed,
+    });
+  } catch (error: any) {
+    fail(error, "Failed to sync registry");
+  }
+}
@@ -0,0 +1,83 @@
+import chalk from "chalk";
+import fs from "fs";
+import path from "path";
+import { readConfig, writeConfig } from "../utils/config";
+import { CliError, ValidationError } from "../utils/errors";
+import { log, result, fail } from "../utils/output";
+import {
+  isGitUrl,
+  isValidTemplateName,
+  listTemplates,
+  TEMPLATE_MANIFEST,
+} from "../utils/templates";
+
+export async function templatesListCommand(): Promise<void> {
+  try {
+    const templates = listTemplates();
+
+    log(chalk.blue("🧩 Block templates"));
+    for (const template of templates) {
+      const origin = template.builtIn ? chalk.gray("built-in") : chalk.cyan(template.source);
+      log(`   ${template.name.padEnd(18)} ${template.description || ""}`);
+      log(`   ${"".padEnd(18)} ${origin}`);
+    }
+    log(chalk.gray("\n   Use one with: mexty create \"Block Name\" --template <name>"));
+
+    result({ templates });
+  } catch (error: any) {
+    fail(error, "Failed to list templates");
+  }
+}
+
+export async function templatesAddCommand(name: string, source: string): Promise<void> {
+  try {
+    if (!isValidTemplateName(name)) {
+      throw new ValidationError(
+        `Invalid template name "${name}": use letters, digits, "-" and "_"`
+      );
+    }
+    if (listTemplates().some((template) => template.builtIn && template.name === name)) {
+      throw new ValidationError(`"${name}" is a built-in template, pick another name`);
+    }
+
+    // Local templates are stored by absolute path so they work from anywhere
+    let location = source;
+    if (!isGitUrl(source)) {
+      location = path.resolve(source);
+      if (!fs.existsSync(location) || !fs.statSync(location).isDirectory()) {
+        throw new ValidationError(`${source} is neither a git URL nor a directory`);
+      }
+      if (!fs.existsSync(path.join(location, TEMPLATE_MANIFEST))) {
+        console.warn(
+          chalk.yellow(`⚠️  ${source} has no ${TEMPLATE_MANIFEST}, all files are copied as-is`)
+        );
+      }
+    }
+
+    const config = readConfig();
+    config.templates = { ...config.templates, [name]: location };
+    writeConfig(config);
+
+    log(chalk.green(`✅ Registered template ${name} (${location})`));
+    result({ name, source: location });
+  } catch (error: any) {
+    fail(error, "Failed to register template");
+  }
+}
+
+export async function templatesRemoveCommand(name: string): Promise<void> {
+  try {
+    const config = readConfig();
+    if (!config.templates?.[name]) {
+      throw new CliError(`No registered template named "${name}"`);
+    }
+
+    delete config.templates[name];
+    writeConfig(config);
+
+    log(chalk.green(`✅ Removed template ${name}`));
+    result({ name });
+  } catch (error: any) {
+    fail(error, "Failed to remove template");
+  }
+}
@@ -0,0 +1,120 @@
+import chalk from "chalk";
+import { apiClient } from "../utils/api";
+import { requireAuthentication } from "../utils/auth";
+import { findBlockId } from "../utils/block";
+import { confirm } from "../utils/prompt";
+import { CliError, CancelledError, ExitCode } from "../utils/errors";
+import { log, result, fail } from "../utils/output";
+
+interface UnpublishOptions {
+  agent?: boolean;
+}
+
+export async function unpublishCommand(
+  blockId?: string,
+  options: UnpublishOptions = {}
+): Promise<void> {
+  try {
+    // Check authentication first
+    requireAuthentication();
+
+    // Fall back to the block of the current repository
+    if (!blockId) {
+      blockId = (await findBlockId()) || undefined;
+      if (!blockId) {
+        log(chalk.yellow("   Pass a block ID: mexty unpublish <blockId>"));
+        throw new CliError("Could not determine block ID from repository.");
+      }
+    }
+
+    const block = await apiClient.getBlock(blockId);
+    const title = block.title || block._doc?.title;
+    const scope = block.scope || [];
+    const published = scope.includes("published-store");
+    const agentInsertable = !!block.isInsertableByAgent;
+
+    log(chalk.blue(`📦 ${title}`));
+    log(chalk.gray(`   Block ID: ${blockId}`));
+    log(chalk.gray(`   Scope: ${scope.join(", ") || "-"}`));
+    log(chalk.gray(`   Agent insertable: ${agentInsertable ? "Yes" : "No"}`));
+
+    const revertAgent = !!options.agent && agentInsertable;
+    if (!published && !revertAgent) {
+      log(chalk.green("✅ Block is not published, nothing to do"));
+      result({ blockId, scope, agentInsertable, changed: false });
+      return;
+    }
+
+    const proceed = await confirm(
+      `Take "${title}" off the marketplace${revertAgent ? " and away from AI agents" : ""}?`
+    );
+    if (!proceed) {
+      throw new CancelledError("Unpublishing cancelled.");
+    }
+
+    // Revert each change separately and report what could not be undone
+    const failures: { change: string; message: string }[] = [];
+    let newScope = scope;
+
+    if (published) {
+      log(chalk.yellow("🌐 Removing block from the marketplace..."));
+      try {
+        // A block needs a scope, keep it in the user's store like publish does
+        const remaining = scope.filter((entry) => entry !== "published-store");
+        newScope = remaining.length > 0 ? remaining : ["user-store"];
+        await apiClient.updateBlockSharing(blockId, newScope);
+        log(chalk.green("✅ Block removed from the marketplace"));
+      } catch (sharingError: any) {
+        newScope = scope;
+        failures.push({ change: "published-store", message: sharingError.message });
+        console.error(
+          chalk.red(`❌ Could not remove block from the marketplace: ${sharingError.message}`)
+        );
+      }
+    }
+
+    let newAgentInsertable = agentInsertable;
+    if (revertAgent) {
+      log(chalk.yellow("🤖 Turning off agent insertability..."));
+      try {
+        await apiClient.updateBlockAgentInsertable(blockId, false);
+        newAgentInsertable = false;
+        log(chalk.green("✅ Block is no longer insertable by AI agents"));
+      } catch (agentError: any) {
+        failures.push({ change: "agent-insertable", message: agentError.message });
+        console.error(
+          chalk.red(
+            `❌ Could not turn off agent insertability (requires Mext staff permissions): ${agentError.message}`
+          )
+        );
+      }
+    } else if (agentInsertable) {
+      log(
+        chalk.gray("   Still insertable by AI agents, add --agent to turn it off")
+      );
+    }
+
+    if (failures.length > 0) {
+      log(chalk.yellow("\n⚠️  Not reverted:"));
+      for (const failure of failures) {
+        log(chalk.yellow(`   - ${failure.change}: ${failure.message}`));
+      }
+      log(chalk.gray("   Try again later or contact support."));
+      throw new CliError(
+        `${failures.length} change(s) could not be reverted`,
+        ExitCode.Error,
+        { blockId, scope: newScope, agentInsertable: newAgentInsertable, failures }
+      );
+    }
+
+    log(chalk.green("\n🎉 Block unpublished"));
+    result({
+      blockId,
+      scope: newScope,
+      agentInsertable: newAgentInsertable,
+      changed: true,
+    });
+  } catch (error: any) {
+    fail(error, "Failed to unpublish block");
+  }
+}
@@ -0,0 +1,169 @@
+import chalk from "chalk";
+import { apiClient, UpdateBlockRequest } from "../utils/api";
+import { requireAuthentication } from "../utils/auth";
+import { findBlockId } from "../utils/block";
+import { findManifestRoot, readManifest, writeManifest } from "../utils/manifest";
+import {
+  METADATA_FIELDS,
+  diffMetadata,
+  editMetadata,
+  metadataFromBlock,
+  metadataFromManifest,
+  validateMetadata,
+} from "../utils/metadata";
+import { confirm, isInteractive } from "../utils/prompt";
+import {
+  CliError,
+  CancelledError,
+  MissingInputError,
+  ValidationError,
+} from "../utils/errors";
+import { log, result, fail } from "../utils/output";
+
+interface UpdateOptions {
+  title?: string;
+  description?: string;
+  type?: string;
+  brickTypes?: string;
+  blockTypes?: string;
+  course?: string;
+  edit?: boolean;
+  fromManifest?: boolean;
+}
+
+// Parse a comma separated --brick-types / --block-types list
+function parseList(value: string | undefined): string[] | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+  return value
+    .split(",")
+    .map((entry) => entry.trim())
+    .filter(Boolean);
+}
+
+function formatValue(value: string | string[] | undefined): string {
+  if (Array.isArray(value)) {
+    return value.length > 0 ? value.join(", ") : "(none)";
+  }
+  return value ? JSON.stringify(value) : "(empty)";
+}
+
+function printChanges(current: UpdateBlockRequest, changes: UpdateBlockRequest): void {
+  log(chalk.blue("\n📝 Changes:"));
+  for (const field of METADATA_FIELDS) {
+    if (changes[field] === undefined) {
+      continue;
+    }
+    log(`   ${field}:`);
+    log(chalk.red(`     - ${formatValue(current[field])}`));
+    log(chalk.green(`     + ${formatValue(changes[field])}`));
+  }
+}
+
+export async function updateCommand(
+  blockId?: string,
+  options: UpdateOptions = {}
+): Promise<void> {
+  try {
+    // Check authentication first
+    requireAuthentication();
+
+    const sources = [options.edit, options.fromManifest].filter(Boolean).length;
+    if (sources > 1) {
+      throw new ValidationError("Use either --edit or --from-manifest, not both");
+    }
+
+    const fromFlags = validateMetadata(
+      {
+        title: options.title,
+        description: options.description,
+        blockType: options.type,
+        allowedBrickTypes: parseList(options.brickTypes),
+        allowedBlockTypes: parseList(options.blockTypes),
+        courseId: options.course,
+      },
+      "Options"
+    );
+    const hasFlags = Object.values(fromFlags).some((value) => value !== undefined);
+
+    if (!hasFlags && sources === 0) {
+      log(chalk.yellow("   Pass the fields to change, e.g. mexty update --title \"New title\""));
+      log(chalk.yellow("   or edit all of them: mexty update --edit"));
+      throw new MissingInputError("Nothing to update");
+    }
+
+    if (options.edit && !isInteractive()) {
+      throw new MissingInputError(
+        "--edit needs an interactive terminal, pass the fields as options instead"
+      );
+    }
+
+    const manifest = readManifest();
+
+    // Fall back to the block of the current repository
+    if (!blockId) {
+      blockId = (await findBlockId()) || undefined;
+      if (!blockId) {
+        log(chalk.yellow("   Pass a block ID: mexty update <blockId>"));
+        throw new CliError("Could not determine block ID from repository.");
+      }
+    }
+
+    let next: UpdateBlockRequest = fromFlags;
+    if (options.fromManifest) {
+      if (!manifest || manifest.blockId !== blockId) {
+        throw new CliError(
+          `No .mexty/block.json for block ${blockId} in this repository`
+        );
+      }
+      // Flags win over the manifest
+      next = { ...metadataFromManifest(manifest), ...fromFlags };
+    }
+
+    const block = await apiClient.getBlock(blockId);
+    const current = metadataFromBlock(block);
+
+    log(chalk.blue(`📦 ${current.title}`));
+    log(chalk.gray(`   Block ID: ${blockId}`));
+
+    if (options.edit) {
+      next = editMetadata({ ...current, ...fromFlags }, blockId);
+    }
+
+    const changes = diffMetadata(current, next);
+    if (Object.keys(changes).length === 0) {
+      log(chalk.green("\n✅ Nothing to change"));
+      result({ blockId, metadata: current, changed: false });
+      return;
+    }
+
+    printChanges(current, changes);
+
+    const proceed = await confirm("Apply these changes?");
+    if (!proceed) {
+      throw new CancelledError("Block metadata unchanged.");
+    }
+
+    await apiClient.updateBlock(blockId, changes);
+    log(chalk.green("✅ Block metadata updated"));
+
+    // Keep the manifest's block type in step with the server
+    if (changes.blockType && manifest && manifest.blockId === blockId) {
+      const root = findManifestRoot();
+      if (root && manifest.blockType !== changes.blockType) {
+        writeManifest(root, { ...manifest, blockType: changes.blockType });
+        log(chalk.gray("   Updated blockType in .mexty/block.json"));
+      }
+    }
+
+    result({
+      blockId,
+      metadata: { ...current, ...changes },
+      changed: true,
+      fields: Object.keys(changes),
+    });
+  } catch (error: any) {
+    fail(error, "Failed to update block");
+  }
+}
@@ -0,0 +1,53 @@
+import chalk from "chalk";
+import path from "path";
+import { resolveBlockFile } from "../utils/props-parser";
+import { validateBlockProps, printValidationIssues } from "../utils/validate";
+import { ValidationError } from "../utils/errors";
+import { log, result, fail } from "../utils/output";
+
+interface ValidateOptions {
+  strict?: boolean;
+}
+
+export async function validateCommand(
+  file?: string,
+  options: ValidateOptions = {}
+): Promise<void> {
+  try {
+    const blockFile = resolveBlockFile(file);
+    log(
+      chalk.blue(`🔍 Validating ${path.relative(process.cwd(), blockFile)}`)
+    );
+
+    const validation = validateBlockProps(blockFile, options.strict);
+    if (validation.parsed) {
+      log(
+        chalk.gray(
+          `   Props type: ${validation.parsed.interfaceName} (${validation.parsed.props.length} props)`
+        )
+      );
+    }
+
+    printValidationIssues(validation.issues);
+
+    if (validation.errorCount > 0) {
+      throw new ValidationError(
+        `${validation.errorCount} error(s), ${validation.warningCount} warning(s)`,
+        { issues: validation.issues }
+      );
+    }
+
+    log(
+      chalk.green(
+        `✅ Props are valid${
+          validation.warningCount > 0
+            ? ` (${validation.warningCount} warning(s))`
+            : ""
+        }`
+      )
+    );
+    result({ file: blockFile, issues: validation.issues });
+  } catch (error: any) {
+    fail(error, "Validation failed");
+  }
+}
@@ -0,0 +1,71 @@
+import chalk from "chalk";
+import { apiClient, SessionResponse } from "../utils/api";
+import { requireAuthentication } from "../utils/auth";
+import { getActiveProfile } from "../utils/config";
+import { AuthenticationError } from "../utils/errors";
+import { ApiAuthError } from "../utils/api-errors";
+import { log, result, fail } from "../utils/output";
+import { formatExpiry } from "../utils/token";
+
+export async function whoamiCommand(): Promise<void> {
+  try {
+    requireAuthentication();
+
+    const profile = getActiveProfile();
+
+    // Ask the server, a token that is stored locally may have been revoked
+    let session: SessionResponse;
+    try {
+      session = await apiClient.getSession();
+    } catch (error: any) {
+      // Without a status the token was not sent, the error says why
+      if (error instanceof ApiAuthError && error.status === 401) {
+        throw new AuthenticationError(
+          "The server rejected your session. Please login again: mexty login"
+        );
+      }
+      throw error;
+    }
+
+    if (!session.success || !session.user) {
+      throw new AuthenticationError(session.message || "No active session");
+    }
+
+    const user = session.user;
+    const expiresAt = session.expiresAt
+      ? new Date(session.expiresAt)
+      : apiClient.getTokenExpiry();
+    const tokenSource = apiClient.isUsingEnvToken() ? "MEXTY_TOKEN" : "login";
+
+    log(chalk.green(`👤 ${user.fullName || user.email}`));
+    if (user.fullName) {
+      log(chalk.gray(`   Email: ${user.email}`));
+    }
+    log(chalk.gray(`   Profile: ${profile.name}`));
+    log(chalk.gray(`   Server: ${profile.apiUrl}`));
+    log(chalk.gray(`   Token: ${tokenSource}`));
+    log(
+      chalk.gray(
+        `   Expires: ${
+          expiresAt
+            ? `${expiresAt.toLocaleString()} (${formatExpiry(expiresAt)})`
+            : "never"
+        }`
+      )
+    );
+    if (apiClient.canRefresh()) {
+      log(chalk.gray("   Refreshed automatically before it expires"));
+    }
+
+    result({
+      user,
+      profile: profile.name,
+      apiUrl: profile.apiUrl,
+      tokenSource,
+      expiresAt: expiresAt?.toISOString(),
+      refreshable: apiClient.canRefresh(),
+    });
+  } catch (error: any) {
+    fail(error, "Could not verify session");
+  }
+}
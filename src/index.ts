@@ -3,14 +3,46 @@
 import { Command } from "commander";
 import chalk from "chalk";
 import { loginCommand } from "./commands/login";
+import { whoamiCommand } from "./commands/whoami";
 import { createCommand } from "./commands/create";
+import { forkCommand } from "./commands/fork";
+import { listCommand } from "./commands/list";
 import { deleteCommand } from "./commands/delete";
 import { publishCommand } from "./commands/publish";
+import { unpublishCommand } from "./commands/unpublish";
+import { shareCommand } from "./commands/share";
+import { updateCommand } from "./commands/update";
+import { linkCommand, unlinkCommand } from "./commands/link";
+import { pullCommand } from "./commands/pull";
+import { scanCommand } from "./commands/scan";
+import { logsCommand } from "./commands/logs";
+import { buildCommand } from "./commands/build";
 import { saveCommand } from "./commands/save";
+import { statusCommand } from "./commands/status";
+import { propsCommand } from "./commands/props";
+import { validateCommand } from "./commands/validate";
+import { devCommand } from "./commands/dev";
+import { syncCommand } from "./commands/sync";
 import { updateGitUrlCommand } from "./commands/update-git-url";
 import { githubLoginCommand } from "./commands/github-login";
 import { githubDisconnectCommand } from "./commands/github-disconnect";
+import {
+  configListCommand,
+  configGetCommand,
+  configSetCommand,
+  configUnsetCommand,
+} from "./commands/config";
+import { profileListCommand, profileUseCommand } from "./commands/profile";
+import {
+  templatesListCommand,
+  templatesAddCommand,
+  templatesRemoveCommand,
+} from "./commands/templates";
 import { apiClient } from "./utils/api";
+import { activateProfile } from "./utils/config";
+import { configurePrompts } from "./utils/prompt";
+import { configureOutput, log, result, fail } from "./utils/output";
+import { requireAuthentication } from "./utils/auth";
 
 const program = new Command();
 
@@ -20,28 +52,61 @@ program
   .description(
     "MEXT CLI for managing React microfrontend blocks and components"
   )
-  .version("1.12.0");
+  .version("1.12.0")
+  .option("--profile <name>", "Use a named profile (or MEXTY_PROFILE)")
+  .option(
+    "--api-url <url>",
+    "Override the API server URL or environment name (or MEXTY_API_URL)"
+  )
+  .option("-y, --yes", "Confirm actions without prompting, questions with a default keep it")
+  .option(
+    "--non-interactive",
+    "Never prompt; fail when required input is missing"
+  )
+  .option("--json", "Print machine-readable JSON (NDJSON) instead of text");
+
+// Apply the selected profile and server before any command runs
+program.hook("preAction", () => {
+  configureOutput(program.opts());
+  configurePrompts(program.opts());
+  try {
+    apiClient.useProfile(activateProfile(program.opts()));
+  } catch (error: any) {
+    fail(error);
+  }
+});
 
 // Add commands
 program
   .command("login")
   .description("Authenticate with MEXT")
+  .option(
+    "--token <token>",
+    "Authenticate with an access token (use - to read it from stdin)"
+  )
   .action(loginCommand);
 
+program
+  .command("whoami")
+  .description("Show the logged in user, profile and login expiry")
+  .action(whoamiCommand);
+
 program
   .command("logout")
   .description("Logout from MEXT")
   .action(async () => {
     try {
       if (!apiClient.isAuthenticated()) {
-        console.log(chalk.yellow("⚠️  You are not logged in"));
+        log(chalk.yellow("⚠️  You are not logged in"));
+        result({ loggedOut: false });
         return;
       }
 
       await apiClient.logout();
-      console.log(chalk.green("✅ Logged out successfully"));
+      log(chalk.green("✅ Logged out successfully"));
+      result({ loggedOut: true });
     } catch (error: any) {
-      console.error(chalk.red(`❌ Logout failed: ${error.message}`));
+      fail(error, "Logout failed");
     }
   });
 
@@ -50,14 +115,47 @@ program
   .command("create [subcommand]")
   .description("Create a new React microfrontend block")
   .option("-d, --description <description>", "Block description")
-  .option("-t, --type <type>", "Block type", "custom")
+  .option("-t, --type <type>", "Block type (default: the template's, or custom)")
   .option("-n, --name <name>", 'Block name (for "create block" syntax)')
   .option(
     "-c, --category <category>",
     'Block category (for "create block" syntax)'
   )
+  .option(
+    "--template <template>",
+    "Start from a template: built-in or registered name, git URL or directory"
+  )
   .action(createCommand);
 
+program
+  .command("fork <blockId>")
+  .description("Fork an existing block and clone it locally")
+  .option("--title <title>", "Title for the forked block")
+  .option("-d, --description <description>", "Description for the forked block")
+  .action(forkCommand);
+
+program
+  .command("link [blockId]")
+  .description("Connect the current directory to an existing block")
+  .action(linkCommand);
+
+program
+  .command("unlink")
+  .description("Detach the current directory from its block")
+  .action(unlinkCommand);
+
+program
+  .command("list")
+  .description("List your blocks")
+  .option("-s, --scope <scope>", "Filter by scope (library, user-store, published-store)")
+  .option("--status <status>", "Filter by build status (pending, building, success, failed)")
+  .option("-t, --type <blockType>", "Filter by block type")
+  .option("-c, --course <courseId>", "Filter by course ID")
+  .option("--sort <order>", "Sort by last update (asc, desc)", "desc")
+  .option("-p, --page <page>", "Page number", "1")
+  .option("-l, --limit <limit>", "Blocks per page", "20")
+  .action(listCommand);
+
 program
   .command("delete <blockId>")
   .description("Delete a block (requires ownership)")
@@ -67,13 +165,116 @@ program
   .command("publish")
   .description("Publish current block to marketplace (free only)")
   .option("--agent", "Make block insertable by AI agents", false)
+  .option("-w, --wait", "Wait for the build and only publish if it succeeds")
+  .option("--timeout <seconds>", "Maximum time to wait for the build", "600")
+  .option("--skip-validation", "Skip the props preflight check")
+  .option("--local-build", "Build the block locally first and stop on errors")
   .action(publishCommand);
 
 program
-  .command("save")
+  .command("unpublish [blockId]")
+  .description("Remove a block from the marketplace")
+  .option("--agent", "Also stop the block being insertable by AI agents")
+  .action(unpublishCommand);
+
+program
+  .command("share [blockId]")
+  .description("Show or change where a block is shared")
+  .option("--add <scopes>", "Add scopes (comma separated: library, user-store, published-store)")
+  .option("--remove <scopes>", "Remove scopes (comma separated)")
+  .option("--agent", "Make the block insertable by AI agents")
+  .option("--no-agent", "Stop the block being insertable by AI agents")
+  .action(shareCommand);
+
+program
+  .command("update [blockId]")
+  .description("Change the title, description or other metadata of a block")
+  .option("--title <title>", "New title")
+  .option("-d, --description <description>", "New description")
+  .option("-t, --type <blockType>", "New block type")
+  .option("--brick-types <types>", "Allowed brick types (comma separated)")
+  .option("--block-types <types>", "Allowed block types (comma separated)")
+  .option("--course <courseId>", "Course the block belongs to (empty to clear)")
+  .option("-e, --edit", "Edit all metadata as YAML in $EDITOR")
+  .option("--from-manifest", "Push the metadata stored in .mexty/block.json")
+  .action(updateCommand);
+
+program
+  .command("save [paths...]")
   .description("Save current block (git add, commit, push, and trigger build)")
+  .option("-m, --message <message>", "Commit message")
+  .option("--amend", "Add the changes to the last commit (only before it is pushed)")
+  .option("-i, --interactive", "Pick the files to commit")
+  .option("-w, --wait", "Wait for the build to finish and report the result")
+  .option("--timeout <seconds>", "Maximum time to wait for the build", "600")
+  .option("--skip-validation", "Skip the props preflight check")
+  .option("--local-build", "Build the block locally first and stop on errors")
   .action(saveCommand);
 
+program
+  .command("build")
+  .description("Build the block locally with its webpack config, like the server does")
+  .option("--install", "Always install dependencies first")
+  .option("--no-install", "Never install dependencies")
+  .option("-o, --out <dir>", "Keep the build output in this directory")
+  .option("--timeout <seconds>", "Maximum time for installing and for building (default: 300)")
+  .action(buildCommand);
+
+program
+  .command("pull")
+  .description("Bring commits from origin into the current branch")
+  .option("--abort", "Undo a pull that stopped with conflicts")
+  .action(pullCommand);
+
+program
+  .command("scan [paths...]")
+  .description("Look for secrets, .env files and large files before they are pushed")
+  .option("-a, --all", "Scan every file in the repository, not only what save would push")
+  .option("--max-size <megabytes>", "Largest file size allowed (default: 5)")
+  .action(scanCommand);
+
+program
+  .command("status [blockId]")
+  .description("Show the build status of a block")
+  .option("-w, --wait", "Wait for a running build to finish")
+  .option("--timeout <seconds>", "Maximum time to wait for the build", "600")
+  .action(statusCommand);
+
+program
+  .command("logs [blockId]")
+  .description("Show the webpack and federation output of a server build")
+  .option("--build <buildId>", "Build to show (default: the latest)")
+  .option("-f, --follow", "Stream the log of a running build until it finishes")
+  .option("-n, --tail <lines>", "Only show the last lines")
+  .option("--timeout <seconds>", "Maximum time to follow the build", "600")
+  .action(logsCommand);
+
+program
+  .command("sync")
+  .description("Generate typed components from the block registry")
+  .option("-o, --out <dir>", "Output directory for generated files")
+  .action(syncCommand);
+
+program
+  .command("props [file]")
+  .description("Print the props schema extracted from src/block.tsx")
+  .action(propsCommand);
+
+program
+  .command("validate [file]")
+  .description("Check src/block.tsx props before saving or publishing")
+  .option("--strict", "Treat warnings (such as missing JSDoc) as errors")
+  .action(validateCommand);
+
+program
+  .command("dev")
+  .description("Preview src/block.tsx locally with an editable props form")
+  .option("-p, --port <port>", "Port for the preview server", "4300")
+  .option("--host <host>", "Interface to listen on, e.g. 0.0.0.0 to preview from other devices", "127.0.0.1")
+  .option("-f, --fixture <file>", "Props fixture file", ".mexty/fixtures/default.json")
+  .option("--open", "Open the preview in the browser")
+  .action(devCommand);
+
 program
   .command("update-git-url [blockId]")
   .description("Update the Git repository URL for a block")
@@ -98,30 +299,85 @@ program
   .description("Check GitHub connection status")
   .action(async () => {
     try {
-      if (!apiClient.isAuthenticated()) {
-        console.log(chalk.yellow("⚠️  Please login first: mexty login"));
-        return;
-      }
+      requireAuthentication();
 
       const status = await apiClient.getGitHubStatus();
       
       if (status.connected) {
-        console.log(chalk.green("✅ GitHub connected"));
-        console.log(chalk.gray(`   Username: ${status.githubUsername}`));
-        console.log(chalk.gray(`   Status: ${status.message}`));
+        log(chalk.green("✅ GitHub connected"));
+        log(chalk.gray(`   Username: ${status.githubUsername}`));
+        log(chalk.gray(`   Status: ${status.message}`));
       } else {
-        console.log(chalk.yellow("❌ GitHub not connected"));
-        console.log(chalk.blue("   Connect with: mexty github-login"));
+        log(chalk.yellow("❌ GitHub not connected"));
+        log(chalk.blue("   Connect with: mexty github-login"));
       }
+      result({
+        connected: !!status.connected,
+        githubUsername: status.githubUsername,
+      });
     } catch (error: any) {
-      console.error(chalk.red(`❌ Failed to check status: ${error.message}`));
+      fail(error, "Failed to check status");
     }
   });
 
+const config = program
+  .command("config")
+  .description("Show or change settings of the active profile")
+  .action(configListCommand);
+
+config
+  .command("get <key>")
+  .description("Print a setting (api-url)")
+  .action(configGetCommand);
+
+config
+  .command("set <key> <value>")
+  .description("Change a setting (api-url)")
+  .action(configSetCommand);
+
+config
+  .command("unset <key>")
+  .description("Remove a setting (api-url)")
+  .action(configUnsetCommand);
+
+const profile = program
+  .command("profile")
+  .description("Manage named profiles");
+
+profile
+  .command("list")
+  .description("List profiles with their server and login state")
+  .action(profileListCommand);
+
+profile
+  .command("use <name>")
+  .description("Switch the default profile")
+  .action(profileUseCommand);
+
+const templates = program
+  .command("templates")
+  .description("Manage block templates for mexty create --template")
+  .action(templatesListCommand);
+
+templates
+  .command("list")
+  .description("List built-in and registered templates")
+  .action(templatesListCommand);
+
+templates
+  .command("add <name> <source>")
+  .description("Register a template from a git URL or local directory")
+  .action(templatesAddCommand);
+
+templates
+  .command("remove <name>")
+  .description("Unregister a template")
+  .action(templatesRemoveCommand);
+
 // Error handling
 program.on("command:*", () => {
   console.error(chalk.red(`Invalid command: ${program.args.join(" ")}`));
-  console.log(chalk.yellow("See --help for a list of available commands."));
+  log(chalk.yellow("See --help for a list of available commands."));
   process.exit(1);
 });
 
@@ -0,0 +1,177 @@
+import { CliError, ExitCode } from "./errors";
+
+/**
+ * Error returned by the MEXT API. Carries the HTTP status, the server's
+ * error code and the raw response body so commands can branch on the cause.
+ */
+export class MextyApiError extends CliError {
+  constructor(
+    message: string,
+    exitCode: number,
+    public status?: number,
+    public code?: string,
+    public body?: any
+  ) {
+    super(message, exitCode, { status, code });
+    this.name = "MextyApiError";
+  }
+}
+
+// 401: missing, expired or revoked token
+export class ApiAuthError extends MextyApiError {
+  constructor(message: string, status?: number, code?: string, body?: any) {
+    super(message, ExitCode.Auth, status, code, body);
+    this.name = "ApiAuthError";
+  }
+}
+
+// 403: logged in, but not allowed to touch this resource
+export class ApiForbiddenError extends MextyApiError {
+  constructor(message: string, status?: number, code?: string, body?: any) {
+    super(message, ExitCode.Auth, status, code, body);
+    this.name = "ApiForbiddenError";
+  }
+}
+
+// 404
+export class ApiNotFoundError extends MextyApiError {
+  constructor(message: string, status?: number, code?: string, body?: any) {
+    super(message, ExitCode.Error, status, code, body);
+    this.name = "ApiNotFoundError";
+  }
+}
+
+// 400 / 409 / 422: the server refused the request data
+export class ApiValidationError extends MextyApiError {
+  constructor(message: string, status?: number, code?: string, body?: any) {
+    super(message, ExitCode.Validation, status, code, body);
+    this.name = "ApiValidationError";
+  }
+}
+
+// 5xx
+export class ApiServerError extends MextyApiError {
+  constructor(message: string, status?: number, code?: string, body?: any) {
+    super(message, ExitCode.Error, status, code, body);
+    this.name = "ApiServerError";
+  }
+}
+
+// No response: server unreachable, DNS failure, timeout
+export class ApiNetworkError extends MextyApiError {
+  constructor(message: string, code?: string) {
+    super(message, ExitCode.Network, undefined, code);
+    this.name = "ApiNetworkError";
+  }
+}
+
+/**
+ * Convert an axios error into the matching MextyApiError. Anything that is
+ * not an HTTP error (e.g. a failed session refresh) is returned unchanged.
+ */
+export function toApiError(error: any, baseUrl: string): Error {
+  if (error instanceof MextyApiError || !error?.isAxiosError) {
+    return error;
+  }
+
+  const response = error.response;
+  if (!response) {
+    return new ApiNetworkError(
+      `Could not reach MEXT server at ${baseUrl} (${error.code || error.message})`,
+      error.code
+    );
+  }
+
+  const status: number = response.status;
+  const body = response.data;
+  const code: string | undefined =
+    typeof body?.code === "string" ? body.code : undefined;
+  const serverMessage: string | undefined =
+    typeof body?.error === "string"
+      ? body.error
+      : typeof body?.message === "string"
+      ? body.message
+      : undefined;
+
+  if (status === 401) {
+    return new ApiAuthError(
+      serverMessage
+        ? `${serverMessage}. Please login again: mexty login`
+        : "Authentication required. Please login first: mexty login",
+      status,
+      code,
+      body
+    );
+  }
+  if (status === 403) {
+    return new ApiForbiddenError(serverMessage || "Access denied", status, code, body);
+  }
+  if (status === 404) {
+    return new ApiNotFoundError(serverMessage || "Not found", status, code, body);
+  }
+  if (status === 400 || status === 409 || status === 422) {
+    return new ApiValidationError(
+      serverMessage || `Invalid request (${status})`,
+      status,
+      code,
+      body
+    );
+  }
+  if (status >= 500) {
+    return new ApiServerError(
+      `Server error ${status}${serverMessage ? `: ${serverMessage}` : ""}`,
+      status,
+      code,
+      body
+    );
+  }
+  return new MextyApiError(
+    serverMessage || `Request failed with status ${status}`,
+    ExitCode.Error,
+    status,
+    code,
+    body
+  );
+}
+
+/**
+ * Network errors and 5xx responses may go away when the request is repeated
+ */
+export function isRetryable(error: unknown): boolean {
+  return error instanceof ApiNetworkError || error instanceof ApiServerError;
+}
+
+export interface RetryOptions {
+  retries?: number;
+  // First delay in ms, doubled after every attempt
+  minDelay?: number;
+  maxDelay?: number;
+}
+
+/**
+ * Run an idempotent request, retrying retryable errors with exponential
+ * backoff. Never use this for requests that create something.
+ */
+export async function withRetry<T>(
+  request: () => Promise<T>,
+  options: RetryOptions = {}
+): Promise<T> {
+  const retries = options.retries ?? 3;
+  const minDelay = options.minDelay ?? 500;
+  const maxDelay = options.maxDelay ?? 8000;
+
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await request();
+    } catch (error) {
+      if (attempt >= retries || !isRetryable(error)) {
+        throw error;
+      }
+      const delay = Math.min(maxDelay, minDelay * 2 ** attempt);
+      // Jitter keeps parallel CLIs from retrying in lockstep
+      await new Promise((resolve) =>
+        setTimeout(resolve, delay / 2 + Math.random() * (delay / 2))
+      );
+    }
+  }
+}
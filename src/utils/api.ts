@@ -1,8 +1,30 @@
-import axios, { AxiosInstance, AxiosResponse } from "axios";
+import axios, {
+  AxiosInstance,
+  AxiosRequestConfig,
+  AxiosResponse,
+  InternalAxiosRequestConfig,
+} from "axios";
 import chalk from "chalk";
 import fs from "fs";
 import path from "path";
-import os from "os";
+import { Readable } from "stream";
+import {
+  DEFAULT_API_URL,
+  DEFAULT_PROFILE,
+  getAuthPath,
+  ResolvedProfile,
+} from "./config";
+import { decodeTokenExpiry, isExpired, REFRESH_MARGIN_MS } from "./token";
+import {
+  ApiAuthError,
+  ApiNetworkError,
+  ApiServerError,
+  toApiError,
+  withRetry,
+} from "./api-errors";
+
+export const BLOCK_SCOPES = ["library", "user-store", "published-store"] as const;
+export type BlockScope = (typeof BLOCK_SCOPES)[number];
 
 export interface Block {
   _id: string;
@@ -23,7 +45,8 @@ export interface Block {
   courseName?: string;
   allowedBrickTypes: string[];
   allowedBlockTypes?: string[];
-  scope: ("library" | "user-store" | "published-store")[];
+  scope: BlockScope[];
+  isInsertableByAgent?: boolean;
   content: any[];
   // Fork tracking
   forkedId?: string;
@@ -55,21 +78,158 @@ export interface ForkBlockRequest {
   description?: string;
 }
 
+// Editable block metadata, unset fields are left unchanged
+export interface UpdateBlockRequest {
+  title?: string;
+  description?: string;
+  blockType?: string;
+  allowedBrickTypes?: string[];
+  allowedBlockTypes?: string[];
+  courseId?: string;
+}
+
+export interface ListBlocksRequest {
+  scope?: BlockScope;
+  buildStatus?: "pending" | "building" | "success" | "failed";
+  blockType?: string;
+  courseId?: string;
+  sort?: "updatedAt" | "-updatedAt";
+  page?: number;
+  limit?: number;
+}
+
+export interface ListBlocksResponse {
+  blocks: Block[];
+  total: number;
+  page: number;
+  limit: number;
+}
+
 export interface SaveAndBundleRequest {
   blockId: string;
 }
 
+export interface BuildLogLine {
+  time?: string;
+  level?: "info" | "warn" | "error";
+  text: string;
+}
+
+export interface BuildLogsRequest {
+  // Build to read, the latest one by default
+  buildId?: string;
+  // Only lines from this position on, for following a running build
+  offset?: number;
+  // Only the last lines
+  tail?: number;
+}
+
+export interface BuildLogs {
+  buildId: string;
+  status: Block["buildStatus"];
+  lines: BuildLogLine[];
+  // Offset of the line after the last one returned
+  nextOffset: number;
+}
+
+export interface PropSchema {
+  type: "string" | "number" | "boolean" | "array" | "object" | string;
+  description?: string;
+  enum?: (string | number)[];
+  items?: PropSchema;
+  properties?: Record<string, PropSchema>;
+  required?: string[];
+  default?: any;
+  // Media hint used by the props editor (color, image, video, audio, model3d)
+  format?: string;
+}
+
+export interface PropsSchema {
+  type: "object";
+  properties: Record<string, PropSchema>;
+  required?: string[];
+}
+
+export interface BlockRegistryEntry {
+  blockId: string;
+  componentName?: string;
+  title: string;
+  description?: string;
+  federationUrl?: string;
+  propsSchema?: PropsSchema;
+  updatedAt?: string;
+}
+
+export interface SyncResponse {
+  success: boolean;
+  registry: BlockRegistryEntry[] | Record<string, BlockRegistryEntry>;
+  message?: string;
+}
+
+export interface User {
+  id: string;
+  email: string;
+  fullName?: string;
+  occupation?: string;
+  isProfileComplete: boolean;
+}
+
 export interface AuthResponse {
   success: boolean;
   message: string;
   token?: string;
-  user?: {
-    id: string;
-    email: string;
-    fullName?: string;
-    occupation?: string;
-    isProfileComplete: boolean;
-  };
+  // Only sent by servers that support refreshing sessions
+  refreshToken?: string;
+  expiresAt?: string;
+  user?: User;
+}
+
+export interface SessionResponse {
+  success: boolean;
+  message?: string;
+  user?: User;
+  expiresAt?: string;
+}
+
+// Contents of the auth file of a profile
+interface StoredAuth {
+  token: string;
+  user: User | null;
+  apiUrl: string;
+  timestamp: string;
+  expiresAt?: string;
+  refreshToken?: string;
+}
+
+const REFRESH_PATH = "/api/auth/refresh";
+
+// A request replayed after refreshing the session, it is not replayed again
+interface ReplayableConfig extends InternalAxiosRequestConfig {
+  refreshed?: boolean;
+}
+
+// Requests that work without a token, sent without one when the stored token
+// belongs to another server
+const PUBLIC_PATHS = [
+  "/api/health",
+  "/api/auth/request-otp",
+  "/api/auth/verify-otp",
+  REFRESH_PATH,
+];
+
+// Absolute URL of a request, to compare with the server a token was issued by
+function requestUrl(config: AxiosRequestConfig): string {
+  const url = config.url || "";
+  if (/^https?:\/\//i.test(url)) {
+    return url;
+  }
+  return `${(config.baseURL || "").replace(/\/+$/, "")}/${url.replace(/^\/+/, "")}`;
+}
+
+function isSameServer(apiUrl: string, url: string): boolean {
+  const base = apiUrl.replace(/\/+$/, "").toLowerCase();
+  const target = url.toLowerCase();
+  return target === base || target.startsWith(`${base}/`) || target.startsWith(`${base}?`);
 }
 
 export interface LoginRequest {
@@ -81,10 +241,12 @@ class ApiClient {
   private client: AxiosInstance;
   private baseUrl: string;
   private tokenPath: string;
+  private profileName: string = DEFAULT_PROFILE;
+  private refreshing: Promise<void> | null = null;
 
-  constructor(baseUrl: string = "https://api.mexty.ai") {
+  constructor(baseUrl: string = DEFAULT_API_URL) {
     this.baseUrl = baseUrl;
-    this.tokenPath = path.join(os.homedir(), ".mext", "auth.json");
+    this.tokenPath = getAuthPath(DEFAULT_PROFILE);
 
     this.client = axios.create({
       baseURL: baseUrl,
@@ -96,8 +258,25 @@ class ApiClient {
 
     // Add request interceptor to include auth token
     this.client.interceptors.request.use(
-      (config) => {
-        const token = this.getStoredToken();
+      async (config) => {
+        // A stored token only goes to the server that issued it. MEXTY_TOKEN
+        // is meant for whichever server is configured.
+        const auth = this.isUsingEnvToken() ? null : this.readStoredAuth();
+        const issuer = auth?.apiUrl || DEFAULT_API_URL;
+        if (auth?.token && !isSameServer(issuer, requestUrl(config))) {
+          if (PUBLIC_PATHS.includes(config.url || "")) {
+            return config;
+          }
+          throw new ApiAuthError(
+            `Profile "${this.profileName}" is logged in to ${issuer}, not ${this.baseUrl}. ` +
+              `Log in to that server with mexty login, or use a profile for it (--profile)`
+          );
+        }
+
+        if (config.url !== REFRESH_PATH) {
+          await this.refreshIfNeeded();
+        }
+        const token = this.getToken();
         if (token) {
           config.headers.Authorization = `Bearer ${token}`;
         }
@@ -106,45 +285,56 @@ class ApiClient {
       (error) => Promise.reject(error)
     );
 
-    // Add response interceptor for error handling
+    // Turn axios errors into typed MextyApiErrors, commands print them. A
+    // 401 refreshes the session once and replays the request; the stored
+    // login is only dropped when the server refuses the refresh.
     this.client.interceptors.response.use(
       (response) => response,
-      (error) => {
-        if (error.response?.status === 401) {
-          console.error(
-            chalk.red(
-              "Authentication required. Please login first: mexty login"
-            )
-          );
-          this.clearStoredToken();
-        } else if (error.response) {
-          console.error(
-            chalk.red(
-              `API Error ${error.response.status}: ${
-                error.response.data?.error || error.message
-              }`
-            )
-          );
-        } else if (error.request) {
-          console.error(
-            chalk.red("Network Error: Could not reach MEXT server")
-          );
-          console.error(
-            chalk.yellow(`Make sure the server is running at ${this.baseUrl}`)
-          );
-        } else {
-          console.error(chalk.red(`Request Error: ${error.message}`));
+      async (error) => {
+        const config: ReplayableConfig | undefined = error.config;
+        if (
+          error.response?.status === 401 &&
+          config &&
+          !config.refreshed &&
+          config.url !== REFRESH_PATH &&
+          this.canRefresh()
+        ) {
+          try {
+            await this.refreshOnce();
+          } catch (refreshError) {
+            if (!(refreshError instanceof ApiNetworkError || refreshError instanceof ApiServerError)) {
+              this.clearStoredToken();
+            }
+            throw toApiError(error, this.baseUrl);
+          }
+          return this.client.request({ ...config, refreshed: true } as ReplayableConfig);
         }
-        throw error;
+        throw toApiError(error, this.baseUrl);
       }
     );
   }
 
-  private getStoredToken(): string | null {
+  // GET requests are idempotent, so they are retried on network errors and 5xx
+  private async get<T>(url: string, config?: AxiosRequestConfig): Promise<T> {
+    return withRetry(async () => {
+      const response: AxiosResponse<T> = await this.client.get(url, config);
+      return response.data;
+    });
+  }
+
+  // MEXTY_TOKEN takes precedence over the token stored at login
+  private getToken(): string | null {
+    return process.env.MEXTY_TOKEN || this.getStoredToken();
+  }
+
+  private readStoredAuth(): StoredAuth | null {
     try {
       if (fs.existsSync(this.tokenPath)) {
-        const authData = JSON.parse(fs.readFileSync(this.tokenPath, "utf8"));
-        return authData.token || null;
+        // Auth files written by older versions were world-readable
+        if (process.platform !== "win32" && (fs.statSync(this.tokenPath).mode & 0o077) !== 0) {
+          fs.chmodSync(this.tokenPath, 0o600);
+        }
+        return JSON.parse(fs.readFileSync(this.tokenPath, "utf8"));
       }
     } catch (error) {
       // Ignore errors reading token file
@@ -152,20 +342,39 @@ class ApiClient {
     return null;
   }
 
-  private storeToken(token: string, user: any): void {
+  private getStoredToken(): string | null {
+    return this.readStoredAuth()?.token || null;
+  }
+
+  private storeToken(
+    token: string,
+    user: User | null,
+    session: { refreshToken?: string; expiresAt?: string } = {}
+  ): void {
     try {
       const authDir = path.dirname(this.tokenPath);
       if (!fs.existsSync(authDir)) {
-        fs.mkdirSync(authDir, { recursive: true });
+        fs.mkdirSync(authDir, { recursive: true, mode: 0o700 });
       }
 
-      const authData = {
+      const expiresAt = session.expiresAt
+        ? new Date(session.expiresAt)
+        : decodeTokenExpiry(token);
+
+      const authData: StoredAuth = {
         token,
         user,
+        apiUrl: this.baseUrl,
         timestamp: new Date().toISOString(),
+        expiresAt: expiresAt?.toISOString(),
+        refreshToken: session.refreshToken,
       };
 
-      fs.writeFileSync(this.tokenPath, JSON.stringify(authData, null, 2));
+      fs.writeFileSync(this.tokenPath, JSON.stringify(authData, null, 2), {
+        mode: 0o600,
+      });
+      // The mode above only applies when the file is created
+      fs.chmodSync(this.tokenPath, 0o600);
     } catch (error: any) {
       console.warn(
         chalk.yellow(`Warning: Could not store auth token: ${error.message}`)
@@ -183,22 +392,95 @@ class ApiClient {
     }
   }
 
+  /**
+   * True when there is a token that is still valid, or an expired one the
+   * server can refresh
+   */
   public isAuthenticated(): boolean {
-    return this.getStoredToken() !== null;
+    if (this.getToken() === null) {
+      return false;
+    }
+    return !isExpired(this.getTokenExpiry()) || this.canRefresh();
   }
 
-  public getStoredUser(): any {
-    try {
-      if (fs.existsSync(this.tokenPath)) {
-        const authData = JSON.parse(fs.readFileSync(this.tokenPath, "utf8"));
-        return authData.user || null;
-      }
-    } catch (error) {
-      // Ignore errors reading user data
+  /**
+   * Expiry of the active token, or null if it is unknown or never expires
+   */
+  public getTokenExpiry(): Date | null {
+    if (this.isUsingEnvToken()) {
+      return decodeTokenExpiry(process.env.MEXTY_TOKEN!);
     }
-    return null;
+    const auth = this.readStoredAuth();
+    if (!auth?.token) {
+      return null;
+    }
+    return auth.expiresAt ? new Date(auth.expiresAt) : decodeTokenExpiry(auth.token);
+  }
+
+  public canRefresh(): boolean {
+    return !this.isUsingEnvToken() && !!this.readStoredAuth()?.refreshToken;
+  }
+
+  /**
+   * Exchange the stored refresh token for a new access token
+   */
+  async refreshSession(): Promise<void> {
+    const auth = this.readStoredAuth();
+    if (!auth?.refreshToken) {
+      throw new Error("This session cannot be refreshed, please login again");
+    }
+
+    const response: AxiosResponse<AuthResponse> = await this.client.post(
+      REFRESH_PATH,
+      { refreshToken: auth.refreshToken },
+      { headers: { Authorization: "" } }
+    );
+    const data = response.data;
+    if (!data.success || !data.token) {
+      throw new Error(data.message || "Session refresh failed");
+    }
+
+    this.storeToken(data.token, data.user || auth.user, {
+      refreshToken: data.refreshToken || auth.refreshToken,
+      expiresAt: data.expiresAt,
+    });
+  }
+
+  // Concurrent requests share one refresh
+  private refreshOnce(): Promise<void> {
+    if (!this.refreshing) {
+      this.refreshing = this.refreshSession().finally(() => {
+        this.refreshing = null;
+      });
+    }
+    return this.refreshing;
+  }
+
+  // Refresh shortly before expiry
+  private async refreshIfNeeded(): Promise<void> {
+    if (!this.canRefresh() || !isExpired(this.getTokenExpiry(), REFRESH_MARGIN_MS)) {
+      return;
+    }
+    await this.refreshOnce();
+  }
+
+  public isUsingEnvToken(): boolean {
+    return !!process.env.MEXTY_TOKEN;
+  }
+
+  /**
+   * Store an access token obtained outside the OTP flow (mexty login --token)
+   */
+  public saveToken(token: string): void {
+    this.storeToken(token, null);
+  }
+
+  public getStoredUser(): any {
+    return this.readStoredAuth()?.user || null;
   }
 
+  // Block creation and forking are never retried, a repeated request after a
+  // lost response would create a second block
   async createBlock(data: CreateBlockRequest): Promise<Block> {
     const response: AxiosResponse<Block> = await this.client.post(
       "/api/blocks",
@@ -220,10 +502,11 @@ class ApiClient {
   }
 
   async getBlock(blockId: string): Promise<Block> {
-    const response: AxiosResponse<Block> = await this.client.get(
-      `/api/blocks/${blockId}`
-    );
-    return response.data;
+    return this.get<Block>(`/api/blocks/${blockId}`);
+  }
+
+  async listBlocks(params: ListBlocksRequest = {}): Promise<ListBlocksResponse> {
+    return this.get<ListBlocksResponse>("/api/blocks", { params });
   }
 
   async saveAndBundle(data: SaveAndBundleRequest): Promise<any> {
@@ -234,6 +517,48 @@ class ApiClient {
     return response.data;
   }
 
+  async getBuildLogs(blockId: string, params: BuildLogsRequest = {}): Promise<BuildLogs> {
+    const { buildId = "latest", ...query } = params;
+    return this.get<BuildLogs>(`/api/blocks/${blockId}/builds/${buildId}/logs`, {
+      params: query,
+    });
+  }
+
+  // Server-sent events with the log lines of a running build. Not retried,
+  // the caller resumes from the last offset it received. There is no request
+  // timeout, `signal` is how the caller gives up on connecting.
+  async streamBuildLogs(
+    blockId: string,
+    buildId: string,
+    offset = 0,
+    signal?: AbortSignal
+  ): Promise<Readable> {
+    const response: AxiosResponse<Readable> = await this.client.get(
+      `/api/blocks/${blockId}/builds/${buildId}/logs/stream`,
+      {
+        params: { offset },
+        headers: { Accept: "text/event-stream" },
+        responseType: "stream",
+        // The stream stays open for as long as the build runs
+        timeout: 0,
+        signal,
+      }
+    );
+    return response.data;
+  }
+
+  async syncRegistry(): Promise<SyncResponse> {
+    return this.get<SyncResponse>("/api/blocks/sync");
+  }
+
+  async updateBlock(blockId: string, data: UpdateBlockRequest): Promise<Block> {
+    const response: AxiosResponse<Block> = await this.client.patch(
+      `/api/blocks/${blockId}`,
+      data
+    );
+    return response.data;
+  }
+
   async updateBlockSharing(blockId: string, scope: string[]): Promise<any> {
     const response = await this.client.patch(`/api/blocks/${blockId}/sharing`, {
       scope,
@@ -277,12 +602,22 @@ class ApiClient {
     const data = response.data;
 
     if (data.success && data.token && data.user) {
-      this.storeToken(data.token, data.user);
+      this.storeToken(data.token, data.user, {
+        refreshToken: data.refreshToken,
+        expiresAt: data.expiresAt,
+      });
     }
 
     return data;
   }
 
+  /**
+   * Ask the server who the current token belongs to
+   */
+  async getSession(): Promise<SessionResponse> {
+    return this.get<SessionResponse>("/api/auth/me");
+  }
+
   async addBlockToStructure(
     blockId: string,
     parentPath?: string
@@ -319,13 +654,11 @@ class ApiClient {
   }
 
   async getGitHubStatus(): Promise<{ success: boolean; connected: boolean; githubUsername?: string; message: string }> {
-    const response = await this.client.get("/api/auth/github/status");
-    return response.data;
+    return this.get("/api/auth/github/status");
   }
 
   async getGitHubToken(): Promise<{ success: boolean; token?: string; username?: string; expiresAt?: Date; message?: string; expired?: boolean }> {
-    const response = await this.client.get("/api/auth/github/token");
-    return response.data;
+    return this.get("/api/auth/github/token");
   }
 
   async disconnectGitHub(): Promise<{ success: boolean; message: string }> {
@@ -334,8 +667,24 @@ class ApiClient {
   }
 
   async checkGitHubInvitationStatus(blockId: string): Promise<{ success: boolean; accepted: boolean; invitationUrl?: string; githubUsername?: string; message?: string }> {
-    const response = await this.client.get(`/api/auth/github/invitation-status/${blockId}`);
-    return response.data;
+    return this.get(`/api/auth/github/invitation-status/${blockId}`);
+  }
+
+  /**
+   * Point the client at a profile's server and token file
+   */
+  useProfile(profile: ResolvedProfile): void {
+    this.profileName = profile.name;
+    this.tokenPath = profile.authPath;
+    this.setBaseUrl(profile.apiUrl);
+  }
+
+  getProfileName(): string {
+    return this.profileName;
+  }
+
+  getBaseUrl(): string {
+    return this.baseUrl;
   }
 
   setBaseUrl(url: string): void {
@@ -1,10 +1,14 @@
 import chalk from 'chalk';
 import { apiClient } from './api';
+import { AuthenticationError } from './errors';
+import { log } from './output';
+import { EXPIRY_WARNING_MS, formatExpiry, isExpired } from './token';
 
 export function checkAuthentication(): boolean {
   if (!apiClient.isAuthenticated()) {
     console.error(chalk.red('❌ Authentication required'));
-    console.log(chalk.yellow('   Please login first: mexty login'));
+    log(chalk.yellow('   Please login first: mexty login'));
+    log(chalk.gray('   In CI, set MEXTY_TOKEN or run: mexty login --token <token>'));
     return false;
   }
   return true;
@@ -14,8 +18,26 @@ export function getAuthenticatedUser(): any {
   return apiClient.getStoredUser();
 }
 
+/**
+ * Fail before any work is done when there is no usable login, and warn when
+ * a login that cannot be refreshed is about to expire
+ */
 export function requireAuthentication(): void {
-  if (!checkAuthentication()) {
-    process.exit(1);
+  const expiresAt = apiClient.getTokenExpiry();
+
+  if (!apiClient.isAuthenticated()) {
+    log(chalk.yellow('   Please login first: mexty login'));
+    log(chalk.gray('   In CI, set MEXTY_TOKEN or run: mexty login --token <token>'));
+    throw new AuthenticationError(
+      expiresAt && isExpired(expiresAt)
+        ? `Your login expired ${formatExpiry(expiresAt)}`
+        : 'Authentication required'
+    );
   }
-} 
\ No newline at end of file
+
+  if (expiresAt && !apiClient.canRefresh() && isExpired(expiresAt, EXPIRY_WARNING_MS)) {
+    console.warn(
+      chalk.yellow(`⚠️  Your login expires ${formatExpiry(expiresAt)}. Run mexty login to renew it.`)
+    );
+  }
+}
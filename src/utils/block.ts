@@ -0,0 +1,121 @@
+import chalk from "chalk";
+import fs from "fs";
+import path from "path";
+import { apiClient, Block } from "./api";
+import { GitManager } from "./git";
+import { readManifest, writeManifest, BlockManifest } from "./manifest";
+import { confirm } from "./prompt";
+import { log } from "./output";
+
+// Legacy lookup: guess the block ID from package.json or git URL
+async function guessBlockId(): Promise<string | null> {
+  const packageJsonPath = path.join(process.cwd(), "package.json");
+
+  if (fs.existsSync(packageJsonPath)) {
+    try {
+      const packageJson = JSON.parse(fs.readFileSync(packageJsonPath, "utf8"));
+
+      // Look for block ID in package.json name or description
+      if (packageJson.name && packageJson.name.startsWith("block-")) {
+        return packageJson.name.replace("block-", "");
+      }
+
+      // Look in description for block ID pattern
+      if (packageJson.description) {
+        const match = packageJson.description.match(
+          /block[:\s]+([a-f0-9]{24})/i
+        );
+        if (match) {
+          return match[1];
+        }
+      }
+    } catch (error) {
+      console.warn(chalk.yellow("⚠️  Could not parse package.json"));
+    }
+  }
+
+  // Try to extract from git remote URL
+  try {
+    const gitManager = new GitManager();
+    const remoteUrl = await gitManager.getRemoteUrl();
+
+    if (remoteUrl) {
+      const match = remoteUrl.match(/block-([a-f0-9]{24})/);
+      if (match) {
+        return match[1];
+      }
+    }
+  } catch (error) {
+    // Ignore git errors
+  }
+
+  return null;
+}
+
+/**
+ * Build the manifest recorded for a block fetched from the server. Fields
+ * the server did not send are left out, so spreading the result over an
+ * existing manifest keeps its values.
+ */
+export function manifestFromBlock(block: Block): BlockManifest {
+  const manifest: BlockManifest = {
+    blockId: block.id || block._id,
+    apiUrl: apiClient.getBaseUrl(),
+    blockType: block.blockType || block._doc?.blockType,
+    forkedId: block.forkedId || block._doc?.forkedId,
+  };
+  return Object.fromEntries(
+    Object.entries(manifest).filter(([, value]) => value !== undefined)
+  ) as BlockManifest;
+}
+
+/**
+ * Determine the block of the current repository.
+ * Reads `.mexty/block.json` first. Repositories without a manifest fall back
+ * to the legacy package.json / remote URL heuristics, and the user is offered
+ * to write a manifest so the guess is not needed again.
+ */
+export async function findBlockId(): Promise<string | null> {
+  const manifest = readManifest();
+  if (manifest) {
+    if (manifest.apiUrl && manifest.apiUrl !== apiClient.getBaseUrl()) {
+      console.warn(
+        chalk.yellow(
+          `⚠️  This block belongs to ${manifest.apiUrl}, but the CLI is using ${apiClient.getBaseUrl()}`
+        )
+      );
+    }
+    return manifest.blockId;
+  }
+
+  const blockId = await guessBlockId();
+  if (!blockId) {
+    return null;
+  }
+
+  log(
+    chalk.yellow(`⚠️  No block manifest found, guessed block ID ${blockId}`)
+  );
+
+  const write = await confirm(
+    "Write .mexty/block.json for this repository?",
+    false
+  );
+  if (!write) {
+    return blockId;
+  }
+
+  try {
+    const block = await apiClient.getBlock(blockId);
+    const root = (await new GitManager().getRepositoryRoot()) || process.cwd();
+    const manifestPath = writeManifest(root, manifestFromBlock(block));
+    log(chalk.green(`✅ Wrote ${path.relative(process.cwd(), manifestPath)}`));
+    log(chalk.gray("   Commit it so everyone resolves the same block"));
+  } catch (error: any) {
+    console.warn(
+      chalk.yellow(`⚠️  Could not write block manifest: ${error.message}`)
+    );
+  }
+
+  return blockId;
+}
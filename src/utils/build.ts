@@ -0,0 +1,156 @@
+import chalk from "chalk";
+import { apiClient, Block } from "./api";
+import { ora } from "./spinner";
+import { BuildError, TimeoutError, ValidationError } from "./errors";
+import { log, isJsonOutput } from "./output";
+
+export interface WaitForBuildOptions {
+  // The block as the server reported it before the build was triggered.
+  // A finished build is only accepted when its lastBuilt is newer.
+  previous?: Block;
+  // Maximum time to wait, in seconds
+  timeout?: number;
+  // Delay between status checks, in seconds
+  interval?: number;
+}
+
+export const DEFAULT_BUILD_TIMEOUT = 600;
+
+export const BUILD_IN_PROGRESS = ["pending", "building"];
+
+export class BuildTimeoutError extends TimeoutError {
+  constructor(seconds: number) {
+    super(`Build did not finish within ${seconds}s`);
+    this.name = "BuildTimeoutError";
+  }
+}
+
+/**
+ * Parse a --timeout option given in seconds
+ */
+export function parseBuildTimeout(value?: string): number | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+
+  const timeout = parseInt(value, 10);
+  if (isNaN(timeout) || timeout <= 0) {
+    throw new ValidationError("--timeout must be a positive number of seconds");
+  }
+  return timeout;
+}
+
+function formatElapsed(ms: number): string {
+  const seconds = Math.floor(ms / 1000);
+  return seconds < 60
+    ? `${seconds}s`
+    : `${Math.floor(seconds / 60)}m ${seconds % 60}s`;
+}
+
+/**
+ * Poll a block until its build reaches `success` or `failed`.
+ * A finished status is only accepted once the block has been seen building,
+ * or when `lastBuilt` is newer than the one of `previous`, so a result left
+ * over from the previous build is never reported for the one just triggered.
+ * Both timestamps come from the server, the local clock is never compared.
+ */
+export async function waitForBuild(
+  blockId: string,
+  options: WaitForBuildOptions = {}
+): Promise<Block> {
+  const timeout = options.timeout ?? DEFAULT_BUILD_TIMEOUT;
+  const interval = (options.interval ?? 3) * 1000;
+  const startedAt = Date.now();
+  let sawInProgress = !options.previous;
+  const previousBuilt = options.previous?.lastBuilt
+    ? new Date(options.previous.lastBuilt).getTime()
+    : null;
+
+  const spinner = ora("Waiting for build to start...").start();
+
+  while (true) {
+    let block: Block | null = null;
+    try {
+      block = await apiClient.getBlock(blockId);
+    } catch (pollError) {
+      // Keep polling through transient errors until the timeout
+    }
+
+    const status = block?.buildStatus;
+    const elapsed = formatElapsed(Date.now() - startedAt);
+
+    if (status && BUILD_IN_PROGRESS.includes(status)) {
+      sawInProgress = true;
+      spinner.text = `Build ${status}... (${elapsed})`;
+    } else if (block && (status === "success" || status === "failed")) {
+      const builtAfter =
+        !!options.previous &&
+        !!block.lastBuilt &&
+        (previousBuilt === null || new Date(block.lastBuilt).getTime() > previousBuilt);
+
+      if (sawInProgress || builtAfter) {
+        if (status === "success") {
+          spinner.succeed(chalk.green(`Build succeeded (${elapsed})`));
+        } else {
+          spinner.fail(chalk.red(`Build failed (${elapsed})`));
+        }
+        return block;
+      }
+    }
+
+    if (Date.now() - startedAt >= timeout * 1000) {
+      spinner.fail(chalk.red(`Timed out waiting for build (${elapsed})`));
+      throw new BuildTimeoutError(timeout);
+    }
+
+    await new Promise((resolve) => setTimeout(resolve, interval));
+  }
+}
+
+/**
+ * Print the build result of a block. Returns true if the build succeeded.
+ */
+export function reportBuildResult(block: Block): boolean {
+  log(chalk.gray(`   Build status: ${block.buildStatus || "unknown"}`));
+  if (block.lastBuilt) {
+    log(
+      chalk.gray(`   Last built: ${new Date(block.lastBuilt).toLocaleString()}`)
+    );
+  }
+
+  if (block.buildStatus === "failed") {
+    if (!isJsonOutput()) {
+      console.error(chalk.red("\n❌ Build error:"));
+      console.error(chalk.red(block.buildError || "No error details provided"));
+    }
+    return false;
+  }
+
+  if (block.buildStatus === "success") {
+    if (block.bundlePath) {
+      log(chalk.gray(`   Bundle Path: ${block.bundlePath}`));
+    }
+    if (block.federationUrl) {
+      log(chalk.gray(`   Federation URL: ${block.federationUrl}`));
+    }
+    return true;
+  }
+
+  return false;
+}
+
+/**
+ * Error for a block whose build did not succeed
+ */
+export function buildFailure(
+  blockId: string,
+  block: Block,
+  logTail?: string[]
+): BuildError {
+  return new BuildError(`Build ${block.buildStatus || "did not succeed"}`, {
+    blockId,
+    buildStatus: block.buildStatus,
+    buildError: block.buildError,
+    logTail,
+  });
+}
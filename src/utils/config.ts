@@ -0,0 +1,166 @@
+import fs from "fs";
+import path from "path";
+import os from "os";
+
+export const DEFAULT_API_URL = "https://api.mexty.ai";
+export const DEFAULT_PROFILE = "default";
+
+// Well-known servers that can be given by name instead of URL
+export const ENVIRONMENTS: Record<string, string> = {
+  production: DEFAULT_API_URL,
+  local: "http://localhost:3001",
+};
+
+export interface ProfileConfig {
+  apiUrl?: string;
+}
+
+export interface CliConfig {
+  currentProfile?: string;
+  profiles: Record<string, ProfileConfig>;
+  // User-registered block templates: name -> git URL or local path
+  templates?: Record<string, string>;
+}
+
+export interface ResolvedProfile {
+  name: string;
+  apiUrl: string;
+  // Where the API URL came from, for display
+  apiUrlSource: "flag" | "env" | "profile" | "default";
+  authPath: string;
+}
+
+export interface ProfileOverrides {
+  profile?: string;
+  apiUrl?: string;
+}
+
+export function getConfigDir(): string {
+  return path.join(os.homedir(), ".mext");
+}
+
+function getConfigPath(): string {
+  return path.join(getConfigDir(), "config.json");
+}
+
+/**
+ * Auth file of a profile. The default profile keeps the historical
+ * `~/.mext/auth.json` so existing logins keep working.
+ */
+export function getAuthPath(profile: string): string {
+  return profile === DEFAULT_PROFILE
+    ? path.join(getConfigDir(), "auth.json")
+    : path.join(getConfigDir(), `auth.${profile}.json`);
+}
+
+export function isValidProfileName(name: string): boolean {
+  return /^[A-Za-z0-9_-]+$/.test(name);
+}
+
+/**
+ * Expand an environment name to its URL and validate the result
+ */
+export function normalizeApiUrl(value: string): string {
+  const url = ENVIRONMENTS[value] || value;
+
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch (error) {
+    throw new Error(
+      `Invalid API URL "${value}". Use a URL or one of: ${Object.keys(
+        ENVIRONMENTS
+      ).join(", ")}`
+    );
+  }
+
+  if (parsed.protocol !== "http:" && parsed.protocol !== "https:") {
+    throw new Error(`Invalid API URL "${value}": must use http or https`);
+  }
+
+  return url.replace(/\/+$/, "");
+}
+
+export function readConfig(): CliConfig {
+  const configPath = getConfigPath();
+  try {
+    if (fs.existsSync(configPath)) {
+      const config = JSON.parse(fs.readFileSync(configPath, "utf8"));
+      return { ...config, profiles: config.profiles || {} };
+    }
+  } catch (error: any) {
+    throw new Error(`Could not parse ${configPath}: ${error.message}`);
+  }
+  return { profiles: {} };
+}
+
+export function writeConfig(config: CliConfig): void {
+  const configDir = getConfigDir();
+  if (!fs.existsSync(configDir)) {
+    fs.mkdirSync(configDir, { recursive: true });
+  }
+  fs.writeFileSync(getConfigPath(), JSON.stringify(config, null, 2) + "\n");
+}
+
+/**
+ * List every known profile: configured ones plus the default profile
+ */
+export function listProfiles(config: CliConfig = readConfig()): string[] {
+  return [
+    ...new Set([DEFAULT_PROFILE, ...Object.keys(config.profiles)]),
+  ].sort();
+}
+
+/**
+ * Resolve the active profile and server.
+ * Profile: --profile, then MEXTY_PROFILE, then the selected profile.
+ * API URL: --api-url, then MEXTY_API_URL, then the profile, then production.
+ */
+export function resolveProfile(overrides: ProfileOverrides = {}): ResolvedProfile {
+  const config = readConfig();
+  const name =
+    overrides.profile ||
+    process.env.MEXTY_PROFILE ||
+    config.currentProfile ||
+    DEFAULT_PROFILE;
+
+  if (!isValidProfileName(name)) {
+    throw new Error(
+      `Invalid profile name "${name}": use letters, digits, "-" and "_"`
+    );
+  }
+
+  const profile = config.profiles[name] || {};
+  let apiUrl = DEFAULT_API_URL;
+  let apiUrlSource: ResolvedProfile["apiUrlSource"] = "default";
+
+  if (overrides.apiUrl) {
+    apiUrl = normalizeApiUrl(overrides.apiUrl);
+    apiUrlSource = "flag";
+  } else if (process.env.MEXTY_API_URL) {
+    apiUrl = normalizeApiUrl(process.env.MEXTY_API_URL);
+    apiUrlSource = "env";
+  } else if (profile.apiUrl) {
+    apiUrl = normalizeApiUrl(profile.apiUrl);
+    apiUrlSource = "profile";
+  }
+
+  return { name, apiUrl, apiUrlSource, authPath: getAuthPath(name) };
+}
+
+let activeProfile: ResolvedProfile | null = null;
+
+/**
+ * Resolve the profile for this invocation from the global options
+ */
+export function activateProfile(overrides: ProfileOverrides = {}): ResolvedProfile {
+  activeProfile = resolveProfile(overrides);
+  return activeProfile;
+}
+
+/**
+ * Profile of this invocation, including --profile and --api-url
+ */
+export function getActiveProfile(): ResolvedProfile {
+  return activeProfile || activateProfile();
+}
@@ -0,0 +1,177 @@
+/**
+ * HTML shell of the `mexty dev` preview: a props editor generated from the
+ * local props schema next to the rendered block. The editor talks to the dev
+ * server through `/schema.json`, `/fixture.json` and the `/events` stream.
+ */
+export function renderDevPage(title: string): string {
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8" />
+<meta name="viewport" content="width=device-width, initial-scale=1" />
+<title>${escapeHtml(title)} · mexty dev</title>
+<link rel="stylesheet" href="/bundle.css" />
+<style>
+  body { margin: 0; font-family: system-ui, sans-serif; display: flex; height: 100vh; }
+  #mexty-editor { width: 340px; flex-shrink: 0; overflow: auto; padding: 12px 16px; box-sizing: border-box;
+    border-right: 1px solid #ddd; background: #fafafa; font-size: 13px; }
+  #mexty-editor h1 { font-size: 15px; margin: 0 0 4px; }
+  #mexty-editor .mexty-status { color: #888; margin-bottom: 12px; }
+  #mexty-editor label { display: block; font-weight: 600; margin-top: 10px; }
+  #mexty-editor .mexty-hint { color: #888; font-weight: normal; }
+  #mexty-editor input[type=text], #mexty-editor input[type=number], #mexty-editor select,
+  #mexty-editor textarea { width: 100%; box-sizing: border-box; margin-top: 4px; font: inherit; }
+  #mexty-editor textarea { min-height: 80px; font-family: monospace; }
+  #mexty-editor .mexty-invalid { outline: 2px solid #e55; }
+  #mexty-editor button { margin-top: 16px; }
+  #mexty-preview { flex: 1; overflow: auto; position: relative; }
+  #mexty-error { display: none; position: fixed; inset: 0 0 auto 340px; background: #fee; color: #900;
+    padding: 12px 16px; white-space: pre-wrap; font-family: monospace; font-size: 12px; z-index: 1000; }
+</style>
+</head>
+<body>
+<div id="mexty-editor">
+  <h1>${escapeHtml(title)}</h1>
+  <div class="mexty-status" id="mexty-status">Loading props schema...</div>
+  <form id="mexty-form"></form>
+  <button type="button" id="mexty-save">Save to fixture</button>
+</div>
+<div id="mexty-preview"><div id="root"></div></div>
+<div id="mexty-error"></div>
+<script>
+(function () {
+  var props = {};
+  var schema = null;
+  var form = document.getElementById("mexty-form");
+  var status = document.getElementById("mexty-status");
+  var errorBox = document.getElementById("mexty-error");
+
+  function showError(message) {
+    errorBox.textContent = message || "";
+    errorBox.style.display = message ? "block" : "none";
+  }
+
+  function render() {
+    if (window.__mextyRender) {
+      try { window.__mextyRender(props); showError(""); }
+      catch (e) { showError(String(e && e.stack || e)); }
+    }
+  }
+
+  function field(name, prop, required) {
+    var wrapper = document.createElement("div");
+    var label = document.createElement("label");
+    label.textContent = name + (required ? "" : "?");
+    var hint = document.createElement("span");
+    hint.className = "mexty-hint";
+    hint.textContent = " " + (prop.enum ? "enum" : prop.type) + (prop.format ? " · " + prop.format : "");
+    label.appendChild(hint);
+    wrapper.appendChild(label);
+    if (prop.description) wrapper.title = prop.description;
+
+    var value = props[name];
+    var input;
+    if (prop.enum) {
+      input = document.createElement("select");
+      if (!required) input.appendChild(new Option("(unset)", ""));
+      prop.enum.forEach(function (v) { input.appendChild(new Option(String(v), JSON.stringify(v))); });
+      input.value = value === undefined ? "" : JSON.stringify(value);
+      input.onchange = function () { set(name, input.value === "" ? undefined : JSON.parse(input.value)); };
+    } else if (prop.type === "boolean") {
+      input = document.createElement("input");
+      input.type = "checkbox";
+      input.checked = !!value;
+      input.onchange = function () { set(name, input.checked); };
+    } else if (prop.type === "number") {
+      input = document.createElement("input");
+      input.type = "number";
+      input.value = value === undefined ? "" : value;
+      input.oninput = function () { set(name, input.value === "" ? undefined : Number(input.value)); };
+    } else if (prop.type === "string" && prop.format === "color") {
+      input = document.createElement("input");
+      input.type = "color";
+      input.value = /^#[0-9a-f]{6}$/i.test(value) ? value : "#000000";
+      input.oninput = function () { set(name, input.value); };
+    } else if (prop.type === "string") {
+      input = document.createElement("input");
+      input.type = "text";
+      input.value = value === undefined ? "" : value;
+      if (prop.format) input.placeholder = prop.format + " URL";
+      input.oninput = function () { set(name, input.value); };
+    } else {
+      // Arrays and objects are edited as JSON
+      input = document.createElement("textarea");
+      input.value = value === undefined ? "" : JSON.stringify(value, null, 2);
+      input.oninput = function () {
+        try {
+          set(name, input.value.trim() === "" ? undefined : JSON.parse(input.value));
+          input.classList.remove("mexty-invalid");
+        } catch (e) { input.classList.add("mexty-invalid"); }
+      };
+    }
+    wrapper.appendChild(input);
+    return wrapper;
+  }
+
+  function set(name, value) {
+    if (value === undefined) delete props[name]; else props[name] = value;
+    render();
+  }
+
+  function buildForm() {
+    form.innerHTML = "";
+    if (!schema) return;
+    var required = schema.required || [];
+    Object.keys(schema.properties || {}).forEach(function (name) {
+      form.appendChild(field(name, schema.properties[name], required.indexOf(name) !== -1));
+    });
+  }
+
+  function load() {
+    return Promise.all([
+      fetch("/schema.json").then(function (r) { return r.json(); }),
+      fetch("/fixture.json").then(function (r) { return r.json(); })
+    ]).then(function (results) {
+      if (results[0].error) {
+        status.textContent = "Props schema unavailable";
+        showError(results[0].error);
+      } else {
+        schema = results[0];
+        status.textContent = "Props from " + results[1].file;
+      }
+      props = results[1].props || {};
+      buildForm();
+      render();
+    });
+  }
+
+  document.getElementById("mexty-save").onclick = function () {
+    fetch("/fixture.json", {
+      method: "PUT",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(props, null, 2)
+    }).then(function (r) { status.textContent = r.ok ? "Saved to fixture" : "Could not save fixture"; });
+  };
+
+  var events = new EventSource("/events");
+  events.addEventListener("reload", function () { location.reload(); });
+  events.addEventListener("fixture", function () { load(); });
+  events.addEventListener("build-error", function (e) { showError(JSON.parse(e.data).message); });
+
+  window.addEventListener("error", function (e) { showError(String(e.error && e.error.stack || e.message)); });
+  window.__mextyReady = load;
+})();
+</script>
+<script src="/bundle.js"></script>
+</body>
+</html>
+`;
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
@@ -0,0 +1,303 @@
+import fs from "fs";
+import http from "http";
+import path from "path";
+import type { BuildContext, BuildResult, Message } from "esbuild";
+import { PropSchema, PropsSchema } from "./api";
+import { parsePropsFile } from "./props-parser";
+import { renderDevPage } from "./dev-page";
+
+export interface DevServerOptions {
+  root: string;
+  blockFile: string;
+  fixtureFile: string;
+  port: number;
+  // Interface to listen on, loopback unless the user asks otherwise
+  host: string;
+  title: string;
+  onRebuild?: (errors: Message[]) => void;
+  onFixtureChange?: () => void;
+}
+
+/**
+ * Build a sample value for a prop: its default, the first enum value, or a
+ * placeholder of the right type
+ */
+function sampleValue(name: string, schema: PropSchema): any {
+  if (schema.default !== undefined) {
+    return schema.default;
+  }
+  if (schema.enum && schema.enum.length > 0) {
+    return schema.enum[0];
+  }
+
+  switch (schema.type) {
+    case "string":
+      return schema.format === "color" ? "#3b82f6" : schema.format ? "" : name;
+    case "number":
+      return 0;
+    case "boolean":
+      return false;
+    case "array":
+      return [];
+    case "object":
+      return Object.fromEntries(
+        Object.entries(schema.properties || {}).map(([key, prop]) => [
+          key,
+          sampleValue(key, prop),
+        ])
+      );
+    default:
+      return null;
+  }
+}
+
+/**
+ * Initial fixture for a block: sample values for every prop in the schema
+ */
+export function createFixtureFromSchema(schema: PropsSchema): Record<string, any> {
+  return Object.fromEntries(
+    Object.entries(schema.properties).map(([name, prop]) => [
+      name,
+      sampleValue(name, prop),
+    ])
+  );
+}
+
+// Entry bundled by esbuild: renders the block with props from the editor
+function createEntry(blockFile: string): string {
+  return `
+import React from "react";
+import * as ReactDOMClient from "react-dom/client";
+import Block from ${JSON.stringify(blockFile)};
+
+const root = ReactDOMClient.createRoot(document.getElementById("root"));
+window.__mextyRender = (props) => root.render(React.createElement(Block, props));
+window.__mextyReady();
+`;
+}
+
+/**
+ * Local preview server for `mexty dev`
+ */
+export class DevServer {
+  private server: http.Server | null = null;
+  private context: BuildContext | null = null;
+  private clients = new Set<http.ServerResponse>();
+  private outputs = new Map<string, Uint8Array>();
+  private buildErrors: Message[] = [];
+
+  constructor(private options: DevServerOptions) {}
+
+  async start(): Promise<void> {
+    const esbuild = await import("esbuild");
+
+    this.context = await esbuild.context({
+      stdin: {
+        contents: createEntry(this.options.blockFile),
+        resolveDir: this.options.root,
+        sourcefile: "mexty-dev-entry.jsx",
+        loader: "jsx",
+      },
+      bundle: true,
+      write: false,
+      outdir: path.join(this.options.root, ".mexty", "dev"),
+      entryNames: "bundle",
+      sourcemap: "inline",
+      jsx: "automatic",
+      define: { "process.env.NODE_ENV": JSON.stringify("development") },
+      loader: {
+        ".png": "dataurl",
+        ".jpg": "dataurl",
+        ".jpeg": "dataurl",
+        ".gif": "dataurl",
+        ".svg": "dataurl",
+        ".webp": "dataurl",
+        ".woff": "dataurl",
+        ".woff2": "dataurl",
+      },
+      logLevel: "silent",
+      plugins: [
+        {
+          name: "mexty-dev",
+          setup: (build) => {
+            build.onEnd((result) => this.handleBuild(result));
+          },
+        },
+      ],
+    });
+
+    await this.context.rebuild().catch(() => undefined);
+    await this.context.watch();
+
+    fs.watchFile(this.options.fixtureFile, { interval: 500 }, () => {
+      this.broadcast("fixture", {});
+      this.options.onFixtureChange?.();
+    });
+
+    this.server = http.createServer((req, res) => this.handleRequest(req, res));
+    await new Promise<void>((resolve, reject) => {
+      this.server!.once("error", reject);
+      this.server!.listen(this.options.port, this.options.host, resolve);
+    });
+  }
+
+  async stop(): Promise<void> {
+    fs.unwatchFile(this.options.fixtureFile);
+    for (const client of this.clients) {
+      client.end();
+    }
+    this.clients.clear();
+    await this.context?.dispose();
+    await new Promise<void>((resolve) =>
+      this.server ? this.server.close(() => resolve()) : resolve()
+    );
+  }
+
+  private handleBuild(result: BuildResult): void {
+    this.buildErrors = result.errors;
+
+    if (result.errors.length === 0) {
+      const previous = this.outputs.get("bundle.js");
+      this.outputs.clear();
+      for (const file of result.outputFiles || []) {
+        this.outputs.set(path.basename(file.path), file.contents);
+      }
+      const current = this.outputs.get("bundle.js");
+      // Unchanged output (e.g. the first watch build) needs no reload
+      if (previous && current && Buffer.from(previous).equals(Buffer.from(current))) {
+        return;
+      }
+      this.broadcast("reload", {});
+    } else {
+      this.broadcast("build-error", { message: formatMessages(result.errors) });
+    }
+
+    this.options.onRebuild?.(result.errors);
+  }
+
+  private handleRequest(req: http.IncomingMessage, res: http.ServerResponse): void {
+    const url = (req.url || "/").split("?")[0];
+
+    try {
+      if (url === "/" || url === "/index.html") {
+        return this.send(res, 200, "text/html", renderDevPage(this.options.title));
+      }
+
+      if (url === "/bundle.js" || url === "/bundle.css") {
+        const name = url.slice(1);
+        if (this.buildErrors.length > 0 && name === "bundle.js") {
+          const message = JSON.stringify(formatMessages(this.buildErrors));
+          return this.send(
+            res,
+            200,
+            "application/javascript",
+            `document.getElementById("mexty-error").style.display = "block";` +
+              `document.getElementById("mexty-error").textContent = ${message};`
+          );
+        }
+        const output = this.outputs.get(name);
+        return this.send(
+          res,
+          200,
+          name.endsWith(".js") ? "application/javascript" : "text/css",
+          output ? Buffer.from(output) : ""
+        );
+      }
+
+      if (url === "/schema.json") {
+        try {
+          return this.sendJson(res, parsePropsFile(this.options.blockFile).schema);
+        } catch (error: any) {
+          return this.sendJson(res, { error: error.message });
+        }
+      }
+
+      if (url === "/fixture.json" && req.method === "PUT") {
+        return this.saveFixture(req, res);
+      }
+
+      if (url === "/fixture.json") {
+        return this.sendJson(res, {
+          file: path.relative(this.options.root, this.options.fixtureFile),
+          props: readFixture(this.options.fixtureFile),
+        });
+      }
+
+      if (url === "/events") {
+        res.writeHead(200, {
+          "Content-Type": "text/event-stream",
+          "Cache-Control": "no-cache",
+          Connection: "keep-alive",
+        });
+        res.write(": connected\n\n");
+        this.clients.add(res);
+        req.on("close", () => this.clients.delete(res));
+        return;
+      }
+
+      this.send(res, 404, "text/plain", "Not found");
+    } catch (error: any) {
+      this.send(res, 500, "text/plain", error.message);
+    }
+  }
+
+  private saveFixture(req: http.IncomingMessage, res: http.ServerResponse): void {
+    let body = "";
+    req.on("data", (chunk) => (body += chunk));
+    req.on("end", () => {
+      try {
+        const props = JSON.parse(body);
+        writeFixture(this.options.fixtureFile, props);
+        this.sendJson(res, { success: true });
+      } catch (error: any) {
+        this.send(res, 400, "text/plain", error.message);
+      }
+    });
+  }
+
+  private broadcast(event: string, data: any): void {
+    for (const client of this.clients) {
+      client.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+    }
+  }
+
+  private send(
+    res: http.ServerResponse,
+    status: number,
+    contentType: string,
+    body: string | Buffer
+  ): void {
+    res.writeHead(status, {
+      "Content-Type": `${contentType}; charset=utf-8`,
+      "Cache-Control": "no-store",
+    });
+    res.end(body);
+  }
+
+  private sendJson(res: http.ServerResponse, data: any): void {
+    this.send(res, 200, "application/json", JSON.stringify(data));
+  }
+}
+
+export function formatMessages(messages: Message[]): string {
+  return messages
+    .map((message) => {
+      const location = message.location
+        ? `${message.location.file}:${message.location.line}:${message.location.column + 1}: `
+        : "";
+      return `${location}${message.text}`;
+    })
+    .join("\n");
+}
+
+export function readFixture(fixtureFile: string): Record<string, any> {
+  if (!fs.existsSync(fixtureFile)) {
+    return {};
+  }
+  return JSON.parse(fs.readFileSync(fixtureFile, "utf8"));
+}
+
+export function writeFixture(fixtureFile: string, props: Record<string, any>): void {
+  fs.mkdirSync(path.dirname(fixtureFile), { recursive: true });
+  fs.writeFileSync(fixtureFile, JSON.stringify(props, null, 2) + "\n");
+}
@@ -0,0 +1,97 @@
+/**
+ * Process exit codes. These are part of the CLI contract, scripts may rely
+ * on them (see "Exit Codes" in the README).
+ */
+export const ExitCode = {
+  Success: 0,
+  Error: 1,
+  MissingInput: 2,
+  Auth: 3,
+  Network: 4,
+  Validation: 5,
+  Build: 6,
+  Cancelled: 7,
+  Timeout: 8,
+} as const;
+
+/**
+ * Error with a dedicated process exit code
+ */
+export class CliError extends Error {
+  constructor(
+    message: string,
+    public exitCode: number = ExitCode.Error,
+    // Extra fields for the --json error object
+    public data?: Record<string, any>
+  ) {
+    super(message);
+    this.name = "CliError";
+  }
+}
+
+/**
+ * Raised when input is needed but the CLI runs non-interactively
+ */
+export class MissingInputError extends CliError {
+  constructor(message: string) {
+    super(message, ExitCode.MissingInput);
+    this.name = "MissingInputError";
+  }
+}
+
+/**
+ * Raised when the command needs a login that is missing or was rejected
+ */
+export class AuthenticationError extends CliError {
+  constructor(message: string) {
+    super(message, ExitCode.Auth);
+    this.name = "AuthenticationError";
+  }
+}
+
+/**
+ * Raised when the block or the command input does not pass validation
+ */
+export class ValidationError extends CliError {
+  constructor(message: string, data?: Record<string, any>) {
+    super(message, ExitCode.Validation, data);
+    this.name = "ValidationError";
+  }
+}
+
+/**
+ * Raised when the block build failed, on the server or locally
+ */
+export class BuildError extends CliError {
+  constructor(message: string, data?: Record<string, any>) {
+    super(message, ExitCode.Build, data);
+    this.name = "BuildError";
+  }
+}
+
+/**
+ * Raised when the user declined a confirmation the command depends on
+ */
+export class CancelledError extends CliError {
+  constructor(message: string) {
+    super(message, ExitCode.Cancelled);
+    this.name = "CancelledError";
+  }
+}
+
+/**
+ * Raised when waiting for the server took longer than allowed
+ */
+export class TimeoutError extends CliError {
+  constructor(message: string) {
+    super(message, ExitCode.Timeout);
+    this.name = "TimeoutError";
+  }
+}
+
+/**
+ * Exit code for an error caught at the top of a command
+ */
+export function exitCodeFor(error: unknown): number {
+  return error instanceof CliError ? error.exitCode : ExitCode.Error;
+}
@@ -0,0 +1,222 @@
+import { apiClient } from "./api";
+
+/**
+ * A git hosting service: how to recognise its URLs and how to
+ * authenticate HTTPS git operations against it
+ */
+export interface GitProvider {
+  id: "github" | "gitlab" | "bitbucket" | "self-hosted";
+  displayName: string;
+  matches(host: string): boolean;
+  // Username git should send together with an access token
+  tokenUsername: string;
+  // Environment variable holding an access token for this provider
+  tokenEnv?: string;
+  // Access token for HTTPS git operations, null to rely on git's own credentials
+  getToken(): Promise<string | null>;
+  // What to tell the user when a private repository cannot be accessed
+  authHint: string;
+}
+
+/**
+ * A remote repository URL split into its parts
+ */
+export interface GitRepository {
+  provider: GitProvider;
+  // With the port when the URL has one (`git.acme.com:8443`)
+  host: string;
+  // scp-like URLs (`git@host:owner/name`) count as ssh
+  scheme: "https" | "http" | "ssh";
+  // Owner, or group path on GitLab (`group/subgroup`)
+  owner: string;
+  name: string;
+  // Original URL as given
+  url: string;
+}
+
+async function envToken(name?: string): Promise<string | null> {
+  return (name && process.env[name]) || null;
+}
+
+export const GITHUB: GitProvider = {
+  id: "github",
+  displayName: "GitHub",
+  matches: (host) => host === "github.com",
+  tokenUsername: "x-access-token",
+  async getToken() {
+    try {
+      // Token of the GitHub account connected with mexty github-login
+      const tokenData = await apiClient.getGitHubToken();
+      return tokenData.success && tokenData.token ? tokenData.token : null;
+    } catch (error) {
+      // Not connected: public repositories still work without credentials
+      return null;
+    }
+  },
+  authHint: "Connect your GitHub account: mexty github-login",
+};
+
+// Self-managed GitLab servers, e.g. MEXTY_GITLAB_HOSTS=gitlab.acme.com,git.acme.io
+function gitlabHosts(): string[] {
+  return (process.env.MEXTY_GITLAB_HOSTS || "")
+    .split(",")
+    .map((host) => host.trim().toLowerCase())
+    .filter(Boolean);
+}
+
+export const GITLAB: GitProvider = {
+  id: "gitlab",
+  displayName: "GitLab",
+  matches: (host) => host === "gitlab.com" || gitlabHosts().includes(host),
+  tokenUsername: "oauth2",
+  tokenEnv: "GITLAB_TOKEN",
+  getToken() {
+    return envToken(this.tokenEnv);
+  },
+  authHint: "Set GITLAB_TOKEN to a personal access token with read_repository and write_repository",
+};
+
+export const BITBUCKET: GitProvider = {
+  id: "bitbucket",
+  displayName: "Bitbucket",
+  matches: (host) => host === "bitbucket.org",
+  tokenUsername: "x-token-auth",
+  tokenEnv: "BITBUCKET_TOKEN",
+  getToken() {
+    return envToken(this.tokenEnv);
+  },
+  authHint: "Set BITBUCKET_TOKEN to a repository access token",
+};
+
+// Any other host, e.g. a company Gitea or Gerrit server
+export const SELF_HOSTED: GitProvider = {
+  id: "self-hosted",
+  displayName: "Self-hosted git",
+  matches: () => true,
+  tokenUsername: "oauth2",
+  tokenEnv: "MEXTY_GIT_TOKEN",
+  getToken() {
+    return envToken(this.tokenEnv);
+  },
+  authHint: "Set MEXTY_GIT_TOKEN, or configure git credentials for this host",
+};
+
+// Checked in order, the self-hosted provider catches everything else
+export const GIT_PROVIDERS: GitProvider[] = [GITHUB, GITLAB, BITBUCKET, SELF_HOSTED];
+
+export function providerForHost(host: string): GitProvider {
+  const normalized = host.toLowerCase();
+  return GIT_PROVIDERS.find((provider) => provider.matches(normalized)) || SELF_HOSTED;
+}
+
+/**
+ * Parse an HTTPS, `ssh://` or scp-like (`git@host:owner/name`) remote URL
+ */
+export function parseGitUrl(url: string): GitRepository | null {
+  const trimmed = url.trim();
+  let host: string;
+  let hostname: string;
+  let scheme: GitRepository["scheme"];
+  let repoPath: string;
+
+  const scpLike = trimmed.match(/^(?:[\w.-]+@)?([\w.-]+):(?!\/\/)(.+)$/);
+  if (scpLike && !/^[a-z+]+:\/\//i.test(trimmed)) {
+    host = hostname = scpLike[1];
+    scheme = "ssh";
+    repoPath = scpLike[2];
+  } else {
+    let parsed: URL;
+    try {
+      parsed = new URL(trimmed);
+    } catch (error) {
+      return null;
+    }
+    if (!["https:", "http:", "ssh:", "git+ssh:"].includes(parsed.protocol)) {
+      return null;
+    }
+    // host keeps a non-default port, self-hosted servers often use one
+    host = parsed.host;
+    hostname = parsed.hostname;
+    scheme = parsed.protocol === "https:" ? "https" : parsed.protocol === "http:" ? "http" : "ssh";
+    repoPath = decodeURIComponent(parsed.pathname);
+  }
+
+  const segments = repoPath
+    .replace(/^\/+|\/+$/g, "")
+    .replace(/\.git$/, "")
+    .split("/");
+  if (
+    !host ||
+    segments.length < 2 ||
+    segments.some((segment) => !/^[\w.-]+$/.test(segment))
+  ) {
+    return null;
+  }
+
+  const provider = providerForHost(hostname);
+  // GitHub and Bitbucket URLs are exactly owner/name
+  if ((provider === GITHUB || provider === BITBUCKET) && segments.length !== 2) {
+    return null;
+  }
+
+  return {
+    provider,
+    host: host.toLowerCase(),
+    scheme,
+    owner: segments.slice(0, -1).join("/"),
+    name: segments[segments.length - 1],
+    url: trimmed,
+  };
+}
+
+export function isValidGitUrl(url: string): boolean {
+  return parseGitUrl(url) !== null;
+}
+
+/**
+ * Repository name of a remote URL, also used as the clone directory
+ */
+export function repoNameFromUrl(url: string): string {
+  const repository = parseGitUrl(url);
+  if (repository) {
+    return repository.name;
+  }
+
+  // Fallback: use the last part of the URL
+  const parts = url.replace(/\/+$/, "").split("/");
+  return parts[parts.length - 1].replace(/\.git$/, "");
+}
+
+/**
+ * HTTPS URL of a repository, HTTP when it was given as such. Credentials
+ * never go into URLs, git gets them from a credential helper.
+ */
+export function httpsUrl(repository: GitRepository): string {
+  // The port of an SSH URL is the SSH server's, not the web server's
+  const host =
+    repository.scheme === "ssh" ? repository.host.replace(/:\d+$/, "") : repository.host;
+  const scheme = repository.scheme === "http" ? "http" : "https";
+  return `${scheme}://${host}/${repository.owner}/${repository.name}.git`;
+}
+
+/**
+ * Compare two remote URLs, ignoring credentials, `.git` and SSH vs HTTPS
+ * form, but not the port
+ */
+export function isSameRepository(a: string, b: string): boolean {
+  const first = parseGitUrl(a);
+  const second = parseGitUrl(b);
+  if (!first || !second) {
+    return a.trim() === b.trim();
+  }
+  // Ports are compared between URLs of the same kind, an SSH port says
+  // nothing about the HTTPS one
+  const sameKind = (first.scheme === "ssh") === (second.scheme === "ssh");
+  const hostOf = (repository: GitRepository) =>
+    sameKind ? repository.host : repository.host.replace(/:\d+$/, "");
+  return (
+    hostOf(first) === hostOf(second) &&
+    first.owner.toLowerCase() === second.owner.toLowerCase() &&
+    first.name.toLowerCase() === second.name.toLowerCase()
+  );
+}
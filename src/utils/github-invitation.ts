@@ -0,0 +1,82 @@
+import chalk from "chalk";
+import { apiClient } from "./api";
+import { log, progress } from "./output";
+
+/**
+ * Make sure the user can access a block's private repository before cloning.
+ * If GitHub is connected and the collaborator invitation is still pending,
+ * show the invitation URL and poll until it is accepted (10 minutes max).
+ * Returns false only when the invitation was not accepted in time.
+ */
+export async function waitForGitHubInvitation(
+  blockId: string,
+  gitUrl: string
+): Promise<boolean> {
+  try {
+    const githubStatus = await apiClient.getGitHubStatus();
+
+    if (!githubStatus.connected) {
+      return true;
+    }
+
+    // User has GitHub connected, check if they need to accept invitation
+    const invitationStatus = await apiClient.checkGitHubInvitationStatus(blockId);
+
+    if (invitationStatus.accepted) {
+      log(chalk.green(`✅ GitHub access confirmed`));
+      return true;
+    }
+
+    // User needs to accept invitation
+    log(chalk.blue(`\n🔐 GitHub Repository Access Required`));
+    log(chalk.gray(`   You've been invited as a collaborator to this private repository.`));
+    log(chalk.gray(`   You must accept the invitation before cloning.\n`));
+
+    log(chalk.yellow(`📧 Accept your invitation:`));
+    log(chalk.cyan(`   ${invitationStatus.invitationUrl}\n`));
+
+    progress("github-invitation", {
+      blockId,
+      gitUrl,
+      invitationUrl: invitationStatus.invitationUrl,
+    });
+    log(chalk.gray(`⏳ Waiting for you to accept the invitation...`));
+    log(chalk.gray(`   You have 10 minutes. Checking every 5 seconds.\n`));
+
+    // Poll for acceptance (10 minutes = 120 attempts at 5 second intervals)
+    const maxAttempts = 120;
+    const pollInterval = 5000; // 5 seconds
+    let attempts = 0;
+
+    while (attempts < maxAttempts) {
+      await new Promise((resolve) => setTimeout(resolve, pollInterval));
+      attempts++;
+
+      try {
+        const status = await apiClient.checkGitHubInvitationStatus(blockId);
+        if (status.accepted) {
+          log(chalk.green(`\n✅ Invitation accepted! Proceeding with clone...\n`));
+          return true;
+        }
+
+        // Show progress every 30 seconds
+        if (attempts % 6 === 0) {
+          const elapsed = Math.floor((attempts * pollInterval) / 1000);
+          const remaining = Math.floor(((maxAttempts - attempts) * pollInterval) / 1000);
+          log(chalk.gray(`   Still waiting... (${elapsed}s elapsed, ${remaining}s remaining)`));
+        }
+      } catch (pollError) {
+        // Continue polling even if there's an error
+      }
+    }
+
+    console.error(chalk.red(`\n❌ Timeout: Invitation not accepted within 10 minutes`));
+    log(chalk.yellow(`\n💡 You can still accept the invitation later and clone manually:`));
+    log(chalk.gray(`   1. Accept invitation: ${invitationStatus.invitationUrl}`));
+    log(chalk.gray(`   2. Clone repository: git clone ${gitUrl}`));
+    return false;
+  } catch (githubError: any) {
+    // Silently skip GitHub invitation check if not connected
+    return true;
+  }
+}
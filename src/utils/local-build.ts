@@ -0,0 +1,410 @@
+import chalk from "chalk";
+import { spawn, fork } from "child_process";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { ora } from "./spinner";
+import { BuildError, CliError, TimeoutError } from "./errors";
+import { log } from "./output";
+import type { RunnerMessage, RunnerProblem, RunnerRequest } from "./webpack-runner";
+
+export const DEFAULT_LOCAL_BUILD_TIMEOUT = 300;
+
+const WEBPACK_CONFIG = "webpack.config.js";
+
+// Variables the build may see, so tokens passed in the environment
+// (MEXTY_TOKEN, GITHUB_TOKEN, ...) are not handed to the block's webpack
+// config and loaders. webpack also gets its own HOME, see runWebpack. This is
+// not a sandbox: they run as the current user and can read anything the user
+// can by absolute path.
+const BUILD_ENV = [
+  "PATH",
+  "HOME",
+  "USERPROFILE",
+  "APPDATA",
+  "LOCALAPPDATA",
+  "SystemRoot",
+  "TMPDIR",
+  "TEMP",
+  "TMP",
+  "LANG",
+  "LC_ALL",
+];
+
+export interface LocalBuildOptions {
+  // true: always install, false: never, undefined: when package.json changed
+  install?: boolean;
+  // Keep the output here, it goes to a temporary directory otherwise
+  outDir?: string;
+  // In seconds, for installing and building each
+  timeout?: number;
+}
+
+export interface BuildProblem {
+  file?: string;
+  line?: number;
+  column?: number;
+  message: string;
+}
+
+export interface LocalBuildResult {
+  outDir?: string;
+  remoteEntry?: string;
+  exposes: { name: string; request: string; built: boolean }[];
+  assets: string[];
+  errors: BuildProblem[];
+  warnings: BuildProblem[];
+  // Dependencies whose install scripts the install of this run skipped
+  skippedInstallScripts: string[];
+  // Build time in milliseconds
+  duration: number;
+}
+
+function buildEnv(extra: Record<string, string> = {}): NodeJS.ProcessEnv {
+  const env: NodeJS.ProcessEnv = {};
+  for (const name of BUILD_ENV) {
+    if (process.env[name] !== undefined) {
+      env[name] = process.env[name];
+    }
+  }
+  return { ...env, ...extra };
+}
+
+/**
+ * Whether node_modules is missing or older than package.json / the lockfile
+ */
+function needsInstall(root: string): boolean {
+  const modules = path.join(root, "node_modules");
+  if (!fs.existsSync(modules)) {
+    return true;
+  }
+  // npm 7+ rewrites its hidden lockfile on every install
+  const hiddenLockfile = path.join(modules, ".package-lock.json");
+  const installedAt = fs.statSync(
+    fs.existsSync(hiddenLockfile) ? hiddenLockfile : modules
+  ).mtimeMs;
+  return ["package.json", "package-lock.json"].some((file) => {
+    const manifest = path.join(root, file);
+    return fs.existsSync(manifest) && fs.statSync(manifest).mtimeMs > installedAt;
+  });
+}
+
+/**
+ * Installed packages that have install scripts, from npm's hidden lockfile
+ */
+function packagesWithInstallScripts(root: string): string[] {
+  try {
+    const lockfile = JSON.parse(
+      fs.readFileSync(path.join(root, "node_modules", ".package-lock.json"), "utf8")
+    );
+    const names = Object.entries<{ hasInstallScript?: boolean }>(lockfile.packages || {})
+      .filter(([, entry]) => entry.hasInstallScript)
+      .map(([location]) => location.slice(location.lastIndexOf("node_modules/") + 13));
+    return [...new Set(names)].sort();
+  } catch (error) {
+    return [];
+  }
+}
+
+/**
+ * npm ci (or npm install without a lockfile). Install scripts of the
+ * dependencies don't run. npm itself runs with the user's HOME so it finds
+ * .npmrc; no code of the block or its dependencies runs during the install.
+ */
+async function installDependencies(root: string, timeout: number): Promise<void> {
+  const lockfile = fs.existsSync(path.join(root, "package-lock.json"));
+  const args = lockfile
+    ? ["ci", "--ignore-scripts", "--no-audit", "--no-fund"]
+    : ["install", "--ignore-scripts", "--no-audit", "--no-fund"];
+  const spinner = ora(`Installing dependencies (npm ${args[0]})...`).start();
+
+  // npm needs its own settings, e.g. a registry token in .npmrc
+  const npmEnv = Object.fromEntries(
+    Object.entries(process.env).filter(
+      ([name, value]) => /^(npm_config_|NPM_|NODE_AUTH_TOKEN$)/i.test(name) && value !== undefined
+    )
+  ) as Record<string, string>;
+
+  const output: string[] = [];
+  const code = await new Promise<number | null>((resolve, reject) => {
+    const child = spawn(process.platform === "win32" ? "npm.cmd" : "npm", args, {
+      cwd: root,
+      env: buildEnv(npmEnv),
+      stdio: ["ignore", "pipe", "pipe"],
+      shell: process.platform === "win32",
+    });
+    const timer = setTimeout(() => {
+      child.kill();
+      reject(new TimeoutError(`npm ${args[0]} did not finish within ${timeout}s`));
+    }, timeout * 1000);
+    child.stdout.on("data", (chunk) => output.push(chunk.toString()));
+    child.stderr.on("data", (chunk) => output.push(chunk.toString()));
+    child.on("error", (error) => {
+      clearTimeout(timer);
+      reject(new CliError(`Could not run npm: ${error.message}`));
+    });
+    child.on("close", (exitCode) => {
+      clearTimeout(timer);
+      resolve(exitCode);
+    });
+  }).catch((error) => {
+    spinner.fail(chalk.red("Installing dependencies failed"));
+    throw error;
+  });
+
+  if (code !== 0) {
+    spinner.fail(chalk.red(`npm ${args[0]} failed`));
+    const lines = output.join("").trim().split("\n");
+    console.error(chalk.gray(lines.slice(-15).join("\n")));
+    throw new BuildError(`npm ${args[0]} exited with code ${code}`);
+  }
+  spinner.succeed(chalk.green("Dependencies installed"));
+}
+
+/**
+ * Run the webpack runner in its own Node process, with a reduced
+ * environment and a time limit. Only build blocks whose code you trust.
+ */
+function runWebpack(request: RunnerRequest, timeout: number): Promise<RunnerMessage> {
+  // An empty HOME, so the stored login and the user's dotfiles are not found
+  // through it
+  const home = fs.mkdtempSync(path.join(os.tmpdir(), "mexty-home-"));
+  return new Promise<RunnerMessage>((resolve, reject) => {
+    const child = fork(path.join(__dirname, "webpack-runner.js"), [], {
+      cwd: request.root,
+      env: buildEnv({
+        NODE_ENV: "production",
+        HOME: home,
+        USERPROFILE: home,
+        APPDATA: path.join(home, "AppData", "Roaming"),
+        LOCALAPPDATA: path.join(home, "AppData", "Local"),
+        npm_config_cache: path.join(home, ".npm"),
+      }),
+      stdio: ["ignore", "pipe", "pipe", "ipc"],
+    });
+    const output: string[] = [];
+    let message: RunnerMessage | null = null;
+    let timedOut = false;
+
+    const timer = setTimeout(() => {
+      timedOut = true;
+      child.kill();
+      reject(new TimeoutError(`webpack did not finish within ${timeout}s`));
+    }, timeout * 1000);
+
+    // Plugins sometimes print instead of reporting errors
+    child.stdout?.on("data", (chunk) => output.push(chunk.toString()));
+    child.stderr?.on("data", (chunk) => output.push(chunk.toString()));
+    child.on("message", (received: RunnerMessage) => {
+      message = received;
+    });
+    child.on("error", (error) => {
+      clearTimeout(timer);
+      reject(error);
+    });
+    child.on("exit", (code, signal) => {
+      clearTimeout(timer);
+      if (message) {
+        resolve(message);
+      } else if (!timedOut) {
+        const details = output.join("").trim();
+        resolve({
+          type: "crash",
+          message: `webpack exited with ${signal || `code ${code}`}${details ? `\n${details}` : ""}`,
+        });
+      }
+    });
+
+    child.send(request);
+  }).finally(() => fs.rmSync(home, { recursive: true, force: true }));
+}
+
+// A source file path, optionally absolute
+const SOURCE_FILE = "((?:[A-Za-z]:)?[^\\s:()'\"]+\\.(?:[cm]?[jt]sx?|css|scss|json))";
+
+// ts-loader: `src/block.tsx(12,5)`, babel: `src/block.tsx: Unexpected token (12:5)`
+const MESSAGE_LOCATIONS = [
+  new RegExp(`${SOURCE_FILE}[:(](\\d+)[:,](\\d+)`),
+  new RegExp(`${SOURCE_FILE}: [^\\n]*\\((\\d+):(\\d+)\\)`),
+];
+
+/**
+ * Turn a webpack problem into a file location and message. Loaders that
+ * don't set the location on the error mention it in the message.
+ */
+function toBuildProblem(problem: RunnerProblem, root: string): BuildProblem {
+  const message = problem.message.trim();
+  // e.g. "./src/block.tsx" or "./src/block.tsx + 2 modules", not "container entry"
+  const moduleFile =
+    problem.moduleName?.startsWith("./") && !problem.moduleName.includes("node_modules")
+      ? problem.moduleName.replace(/^\.\//, "").replace(/ \+ \d+ modules?$/, "")
+      : undefined;
+
+  const loc = problem.loc?.match(/^(\d+):(\d+)/);
+  if (moduleFile && loc) {
+    return { file: moduleFile, line: Number(loc[1]), column: Number(loc[2]), message };
+  }
+
+  for (const pattern of MESSAGE_LOCATIONS) {
+    const match = message.match(pattern);
+    if (match) {
+      const file = path.isAbsolute(match[1])
+        ? path.relative(root, match[1])
+        : match[1].replace(/^\.\//, "");
+      return { file, line: Number(match[2]), column: Number(match[3]), message };
+    }
+  }
+  return { file: moduleFile, message };
+}
+
+/**
+ * Print build problems as `file:line:column` lines
+ */
+export function printBuildProblems(problems: BuildProblem[], severity: "error" | "warning"): void {
+  for (const problem of problems) {
+    const location = problem.file
+      ? [problem.file, problem.line, problem.column].filter((part) => part !== undefined).join(":")
+      : "";
+    const [first, ...rest] = problem.message.split("\n");
+    const line = `   ${location ? `${location}  ` : ""}${first}`;
+    log(severity === "error" ? chalk.red(`✖${line}`) : chalk.yellow(`⚠${line}`));
+    for (const detail of rest.slice(0, 8)) {
+      log(chalk.gray(`      ${detail}`));
+    }
+  }
+}
+
+/**
+ * After a failed build: dependencies whose skipped install scripts may be
+ * the cause, e.g. native or binary packages such as esbuild or sass
+ */
+export function printSkippedInstallScripts(packages: string[]): void {
+  if (packages.length === 0) {
+    return;
+  }
+  log(chalk.yellow(`\n💡 The install skipped the install scripts of: ${packages.join(", ")}`));
+  log(chalk.gray("   If the build needs them, run them and build again without installing:"));
+  log(chalk.gray(`   npm rebuild ${packages.join(" ")} && mexty build --no-install`));
+}
+
+/**
+ * Install dependencies and build the block with its own webpack config.
+ * The result lists what went wrong; it only throws when the build could
+ * not run at all.
+ */
+export async function runLocalBuild(
+  root: string,
+  options: LocalBuildOptions = {}
+): Promise<LocalBuildResult> {
+  const timeout = options.timeout ?? DEFAULT_LOCAL_BUILD_TIMEOUT;
+  const configFile = path.join(root, WEBPACK_CONFIG);
+
+  if (!fs.existsSync(path.join(root, "package.json"))) {
+    throw new CliError("package.json not found, run this command from a block repository");
+  }
+  if (!fs.existsSync(configFile)) {
+    throw new CliError(`${WEBPACK_CONFIG} not found, the server builds blocks with it`);
+  }
+
+  let skippedInstallScripts: string[] = [];
+  if (options.install ?? needsInstall(root)) {
+    await installDependencies(root, timeout);
+    skippedInstallScripts = packagesWithInstallScripts(root);
+  }
+
+  const outDir = options.outDir
+    ? path.resolve(options.outDir)
+    : fs.mkdtempSync(path.join(os.tmpdir(), "mexty-build-"));
+  const spinner = ora("Building with webpack...").start();
+  const startedAt = Date.now();
+
+  let message: RunnerMessage;
+  try {
+    message = await runWebpack({ root, configFile, outputPath: outDir }, timeout);
+  } catch (error) {
+    spinner.fail(chalk.red("Build did not finish"));
+    throw error;
+  } finally {
+    if (!options.outDir) {
+      fs.rmSync(outDir, { recursive: true, force: true });
+    }
+  }
+
+  const duration = Date.now() - startedAt;
+  if (message.type === "crash") {
+    spinner.fail(chalk.red("webpack could not run"));
+    return {
+      exposes: [],
+      assets: [],
+      errors: [toBuildProblem({ message: message.message }, root)],
+      warnings: [],
+      skippedInstallScripts,
+      duration,
+    };
+  }
+
+  const errors = message.errors.map((problem) => toBuildProblem(problem, root));
+  const warnings = message.warnings.map((problem) => toBuildProblem(problem, root));
+
+  // The server only serves blocks that are federation remotes
+  const federation = message.federation;
+  if (!federation) {
+    errors.push({ file: WEBPACK_CONFIG, message: "No ModuleFederationPlugin configured" });
+  } else if (errors.length === 0) {
+    if (!federation.filename || !message.assets.includes(federation.filename)) {
+      errors.push({
+        file: WEBPACK_CONFIG,
+        message: federation.filename
+          ? `Federation entry ${federation.filename} was not emitted`
+          : "ModuleFederationPlugin has no filename for the remote entry (e.g. remoteEntry.js)",
+      });
+    }
+    if (federation.exposes.length === 0) {
+      errors.push({ file: WEBPACK_CONFIG, message: "ModuleFederationPlugin exposes no module" });
+    }
+    for (const expose of federation.exposes.filter((item) => !item.built)) {
+      errors.push({
+        file: WEBPACK_CONFIG,
+        message: `Exposed module ${expose.name} (${expose.request}) was not built`,
+      });
+    }
+  }
+
+  if (errors.length > 0) {
+    spinner.fail(chalk.red(`Build failed with ${errors.length} error(s)`));
+  } else {
+    spinner.succeed(chalk.green(`Build succeeded (${(duration / 1000).toFixed(1)}s)`));
+  }
+
+  return {
+    outDir: options.outDir ? outDir : undefined,
+    remoteEntry: federation?.filename,
+    exposes: federation?.exposes || [],
+    assets: message.assets,
+    errors,
+    warnings,
+    skippedInstallScripts,
+    duration,
+  };
+}
+
+/**
+ * Preflight used by save and publish with --local-build. Throws a
+ * BuildError when the block does not build and nothing should be pushed.
+ */
+export async function runLocalBuildPreflight(root: string): Promise<void> {
+  log(chalk.yellow("🔨 Building the block locally..."));
+  const build = await runLocalBuild(root);
+
+  printBuildProblems(build.errors, "error");
+  if (build.errors.length > 0) {
+    printSkippedInstallScripts(build.skippedInstallScripts);
+    throw new BuildError(
+      `Local build failed with ${build.errors.length} error(s). Nothing was pushed.`,
+      { errors: build.errors, skippedInstallScripts: build.skippedInstallScripts }
+    );
+  }
+  if (build.warnings.length > 0) {
+    log(chalk.yellow(`   ${build.warnings.length} warning(s), see: mexty build`));
+  }
+}
@@ -0,0 +1,203 @@
+import chalk from "chalk";
+import { Readable } from "stream";
+import { apiClient, BuildLogLine, BuildLogs } from "./api";
+import { ApiAuthError, ApiForbiddenError } from "./api-errors";
+import { BUILD_IN_PROGRESS, BuildTimeoutError, DEFAULT_BUILD_TIMEOUT } from "./build";
+import { log } from "./output";
+
+export const DEFAULT_LOG_TAIL = 30;
+
+export interface FollowBuildLogsOptions {
+  // Offset of the first line not printed yet
+  offset?: number;
+  // Maximum time to follow, in seconds
+  timeout?: number;
+  // Delay between polls when the server can't stream, in seconds
+  interval?: number;
+  onLine?: (line: BuildLogLine) => void;
+}
+
+/**
+ * Print a log line, errors in red and warnings in yellow
+ */
+export function printLogLine(line: BuildLogLine): void {
+  const time = line.time
+    ? chalk.gray(`${new Date(line.time).toLocaleTimeString()} `)
+    : "";
+  const text =
+    line.level === "error"
+      ? chalk.red(line.text)
+      : line.level === "warn"
+      ? chalk.yellow(line.text)
+      : line.text;
+  log(`${time}${text}`);
+}
+
+/**
+ * Read server-sent events until the `end` event. Resolves with the final
+ * build status, or null when the connection closed before the end.
+ */
+function readEventStream(
+  stream: Readable,
+  state: { offset: number },
+  deadline: number,
+  timeout: number,
+  onLine: (line: BuildLogLine) => void
+): Promise<BuildLogs["status"] | null> {
+  return new Promise((resolve, reject) => {
+    let buffer = "";
+    let event: { type: string; id?: string; data: string[] } = { type: "log", data: [] };
+    let done = false;
+
+    const finish = (error: Error | null, status: BuildLogs["status"] | null = null) => {
+      if (done) {
+        return;
+      }
+      done = true;
+      clearTimeout(timer);
+      stream.removeAllListeners();
+      stream.on("error", () => {});
+      stream.destroy();
+      if (error) {
+        reject(error);
+      } else {
+        resolve(status);
+      }
+    };
+    const timer = setTimeout(
+      () => finish(new BuildTimeoutError(timeout)),
+      Math.max(deadline - Date.now(), 0)
+    );
+
+    const dispatch = () => {
+      const data = event.data.join("\n");
+      const { type, id } = event;
+      event = { type: "log", data: [] };
+      if (!data) {
+        return;
+      }
+      if (type === "end") {
+        finish(null, JSON.parse(data).status);
+        return;
+      }
+      if (type === "log") {
+        onLine(JSON.parse(data));
+        state.offset = id !== undefined ? Number(id) + 1 : state.offset + 1;
+      }
+    };
+
+    stream.setEncoding("utf8");
+    stream.on("data", (chunk: string) => {
+      buffer += chunk;
+      const lines = buffer.split(/\r?\n/);
+      buffer = lines.pop() || "";
+      try {
+        for (const line of lines) {
+          if (done) {
+            return;
+          }
+          if (line === "") {
+            dispatch();
+          } else if (line.startsWith("event:")) {
+            event.type = line.slice(6).trim();
+          } else if (line.startsWith("id:")) {
+            event.id = line.slice(3).trim();
+          } else if (line.startsWith("data:")) {
+            event.data.push(line.slice(5).replace(/^ /, ""));
+          }
+          // Comments (":") keep the connection alive and are ignored
+        }
+      } catch (parseError: any) {
+        finish(new Error(`Invalid log event: ${parseError.message}`));
+      }
+    });
+    stream.on("end", () => finish(null));
+    stream.on("error", (error) => finish(error));
+  });
+}
+
+/**
+ * Print the log of a running build as it is written, until the build
+ * finishes. Streams server-sent events and falls back to polling when
+ * the server or a proxy doesn't support them. Returns the final status.
+ */
+export async function followBuildLogs(
+  blockId: string,
+  buildId: string,
+  options: FollowBuildLogsOptions = {}
+): Promise<BuildLogs["status"]> {
+  const timeout = options.timeout ?? DEFAULT_BUILD_TIMEOUT;
+  const interval = (options.interval ?? 2) * 1000;
+  const onLine = options.onLine || printLogLine;
+  const deadline = Date.now() + timeout * 1000;
+  const state = { offset: options.offset ?? 0 };
+
+  // The stream has no request timeout, a server that accepts the connection
+  // but never answers is given up on at the deadline
+  const connect = new AbortController();
+  const connectTimer = setTimeout(
+    () => connect.abort(),
+    Math.max(deadline - Date.now(), 0)
+  );
+
+  try {
+    const stream = await apiClient
+      .streamBuildLogs(blockId, buildId, state.offset, connect.signal)
+      .finally(() => clearTimeout(connectTimer));
+    const status = await readEventStream(stream, state, deadline, timeout, onLine);
+    if (status) {
+      return status;
+    }
+    // Connection dropped, pick up the remaining lines by polling
+  } catch (streamError) {
+    if (connect.signal.aborted) {
+      throw new BuildTimeoutError(timeout);
+    }
+    if (
+      streamError instanceof BuildTimeoutError ||
+      streamError instanceof ApiAuthError ||
+      streamError instanceof ApiForbiddenError
+    ) {
+      throw streamError;
+    }
+  }
+
+  while (true) {
+    const logs = await apiClient.getBuildLogs(blockId, {
+      buildId,
+      offset: state.offset,
+    });
+    logs.lines.forEach(onLine);
+    state.offset = logs.nextOffset;
+
+    if (!logs.status || !BUILD_IN_PROGRESS.includes(logs.status)) {
+      return logs.status;
+    }
+    if (Date.now() >= deadline) {
+      throw new BuildTimeoutError(timeout);
+    }
+    await new Promise((resolve) => setTimeout(resolve, interval));
+  }
+}
+
+/**
+ * Print the end of the latest build log after a failed build. Returns the
+ * printed lines, or undefined when the log could not be read.
+ */
+export async function showBuildLogTail(
+  blockId: string,
+  tail: number = DEFAULT_LOG_TAIL
+): Promise<string[] | undefined> {
+  try {
+    const logs = await apiClient.getBuildLogs(blockId, { tail });
+    if (logs.lines.length > 0) {
+      log(chalk.red(`\n📜 Last ${logs.lines.length} line(s) of the build log:`));
+      logs.lines.forEach(printLogLine);
+    }
+    log(chalk.gray(`\n   Full log: mexty logs ${blockId}`));
+    return logs.lines.map((line) => line.text);
+  } catch (logError: any) {
+    log(chalk.gray(`   Build log unavailable: ${logError.message}`));
+    return undefined;
+  }
+}
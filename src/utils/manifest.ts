@@ -0,0 +1,95 @@
+import fs from "fs";
+import path from "path";
+
+/**
+ * Per-repository block manifest stored in `.mexty/block.json`
+ */
+export interface BlockManifest {
+  blockId: string;
+  // API server the block lives on
+  apiUrl?: string;
+  blockType?: string;
+  // Parent block when the block is a fork
+  forkedId?: string;
+  // Optional metadata pushed by `mexty update --from-manifest`
+  title?: string;
+  description?: string;
+  allowedBrickTypes?: string[];
+  allowedBlockTypes?: string[];
+  courseId?: string;
+}
+
+export const MANIFEST_DIR = ".mexty";
+export const MANIFEST_FILE = "block.json";
+
+/**
+ * Find the directory holding `.mexty/block.json`, walking up from `startDir`
+ */
+export function findManifestRoot(startDir: string = process.cwd()): string | null {
+  let dir = path.resolve(startDir);
+
+  while (true) {
+    if (fs.existsSync(path.join(dir, MANIFEST_DIR, MANIFEST_FILE))) {
+      return dir;
+    }
+    const parent = path.dirname(dir);
+    if (parent === dir) {
+      return null;
+    }
+    dir = parent;
+  }
+}
+
+/**
+ * Read the block manifest of the repository containing `startDir`
+ */
+export function readManifest(startDir: string = process.cwd()): BlockManifest | null {
+  const root = findManifestRoot(startDir);
+  if (!root) {
+    return null;
+  }
+
+  const manifestPath = path.join(root, MANIFEST_DIR, MANIFEST_FILE);
+  let manifest: BlockManifest;
+  try {
+    manifest = JSON.parse(fs.readFileSync(manifestPath, "utf8"));
+  } catch (error: any) {
+    throw new Error(`Could not parse ${manifestPath}: ${error.message}`);
+  }
+
+  if (!manifest || typeof manifest.blockId !== "string" || !manifest.blockId) {
+    throw new Error(`${manifestPath} does not contain a blockId`);
+  }
+
+  return manifest;
+}
+
+/**
+ * Write the block manifest into `dir/.mexty/block.json`
+ */
+export function writeManifest(dir: string, manifest: BlockManifest): string {
+  const manifestDir = path.join(dir, MANIFEST_DIR);
+  if (!fs.existsSync(manifestDir)) {
+    fs.mkdirSync(manifestDir, { recursive: true });
+  }
+
+  // Drop unset fields so the file stays minimal
+  const data = Object.fromEntries(
+    Object.entries(manifest).filter(([, value]) => value !== undefined)
+  );
+
+  const manifestPath = path.join(manifestDir, MANIFEST_FILE);
+  fs.writeFileSync(manifestPath, JSON.stringify(data, null, 2) + "\n");
+  return manifestPath;
+}
+
+/**
+ * Remove `dir/.mexty/block.json`, and `.mexty` when nothing else is left in it
+ */
+export function removeManifest(dir: string): void {
+  const manifestDir = path.join(dir, MANIFEST_DIR);
+  fs.rmSync(path.join(manifestDir, MANIFEST_FILE), { force: true });
+  if (fs.existsSync(manifestDir) && fs.readdirSync(manifestDir).length === 0) {
+    fs.rmdirSync(manifestDir);
+  }
+}
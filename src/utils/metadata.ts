@@ -0,0 +1,181 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { spawnSync } from "child_process";
+import { parse as parseYaml, stringify as stringifyYaml } from "yaml";
+import { Block, UpdateBlockRequest } from "./api";
+import { BlockManifest } from "./manifest";
+import { CliError, ValidationError } from "./errors";
+
+export type MetadataField = keyof UpdateBlockRequest;
+
+export const METADATA_FIELDS: MetadataField[] = [
+  "title",
+  "description",
+  "blockType",
+  "allowedBrickTypes",
+  "allowedBlockTypes",
+  "courseId",
+];
+
+type ListField = "allowedBrickTypes" | "allowedBlockTypes";
+
+const LIST_FIELDS: ListField[] = ["allowedBrickTypes", "allowedBlockTypes"];
+
+function isListField(field: MetadataField): field is ListField {
+  return (LIST_FIELDS as MetadataField[]).includes(field);
+}
+
+/**
+ * Current editable metadata of a block
+ */
+export function metadataFromBlock(block: Block): UpdateBlockRequest {
+  return {
+    title: block.title || block._doc?.title || "",
+    description: block.description || block._doc?.description || "",
+    blockType: block.blockType || block._doc?.blockType || "",
+    allowedBrickTypes: block.allowedBrickTypes || [],
+    allowedBlockTypes: block.allowedBlockTypes || [],
+    courseId: block.courseId || "",
+  };
+}
+
+/**
+ * Metadata fields set in the block manifest
+ */
+export function metadataFromManifest(manifest: BlockManifest): UpdateBlockRequest {
+  return validateMetadata(
+    Object.fromEntries(
+      METADATA_FIELDS.filter((field) => manifest[field] !== undefined).map(
+        (field) => [field, manifest[field]]
+      )
+    ),
+    ".mexty/block.json"
+  );
+}
+
+/**
+ * Check the shape of metadata coming from a file, `source` names it in errors
+ */
+export function validateMetadata(data: any, source: string): UpdateBlockRequest {
+  if (data === null || typeof data !== "object" || Array.isArray(data)) {
+    throw new ValidationError(`${source}: expected a mapping of metadata fields`);
+  }
+
+  const unknown = Object.keys(data).filter(
+    (key) => !(METADATA_FIELDS as string[]).includes(key)
+  );
+  if (unknown.length > 0) {
+    throw new ValidationError(
+      `${source}: unknown field ${unknown.join(", ")} (expected ${METADATA_FIELDS.join(", ")})`
+    );
+  }
+
+  const metadata: UpdateBlockRequest = {};
+  for (const field of METADATA_FIELDS) {
+    const value = data[field];
+    if (value === undefined) {
+      continue;
+    }
+
+    if (isListField(field)) {
+      if (
+        !Array.isArray(value) ||
+        value.some((entry) => typeof entry !== "string")
+      ) {
+        throw new ValidationError(`${source}: ${field} must be a list of strings`);
+      }
+      metadata[field] = value.map((entry: string) => entry.trim()).filter(Boolean);
+    } else {
+      // An empty YAML value parses as null, treat it as an empty string
+      if (value !== null && typeof value !== "string") {
+        throw new ValidationError(`${source}: ${field} must be a string`);
+      }
+      metadata[field] = (value ?? "").trim();
+    }
+  }
+
+  if (metadata.title === "") {
+    throw new ValidationError(`${source}: title cannot be empty`);
+  }
+  if (metadata.blockType === "") {
+    throw new ValidationError(`${source}: blockType cannot be empty`);
+  }
+
+  return metadata;
+}
+
+function copyField<K extends MetadataField>(
+  to: UpdateBlockRequest,
+  from: UpdateBlockRequest,
+  field: K
+): void {
+  to[field] = from[field];
+}
+
+/**
+ * Fields of `next` that differ from `current`
+ */
+export function diffMetadata(
+  current: UpdateBlockRequest,
+  next: UpdateBlockRequest
+): UpdateBlockRequest {
+  const changes: UpdateBlockRequest = {};
+  for (const field of METADATA_FIELDS) {
+    const value = next[field];
+    if (value !== undefined && JSON.stringify(value) !== JSON.stringify(current[field])) {
+      copyField(changes, next, field);
+    }
+  }
+  return changes;
+}
+
+/**
+ * Open the metadata as YAML in $VISUAL / $EDITOR and return what was saved
+ */
+export function editMetadata(
+  metadata: UpdateBlockRequest,
+  blockId: string
+): UpdateBlockRequest {
+  // A private directory, so nothing planted in the shared tmpdir is written
+  // through or read back
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), "mexty-"));
+  const file = path.join(dir, `block-${blockId.replace(/[^\w-]/g, "_")}.yaml`);
+  const header =
+    `# Metadata of block ${blockId}\n` +
+    "# Save and close the editor to continue, lines starting with # are ignored\n";
+
+  try {
+    fs.writeFileSync(file, header + stringifyYaml(metadata), { mode: 0o600, flag: "wx" });
+
+    const editor =
+      process.env.VISUAL ||
+      process.env.EDITOR ||
+      (process.platform === "win32" ? "notepad" : "vi");
+
+    // The editor goes through the shell so editors with arguments
+    // ("code --wait") work. The file is passed as its own argument, like git
+    // does, so its path is never parsed by the shell.
+    const child =
+      process.platform === "win32"
+        ? spawnSync(`${editor} "${file}"`, { stdio: "inherit", shell: true })
+        : spawnSync("/bin/sh", ["-c", `${editor} "$@"`, editor, file], {
+            stdio: "inherit",
+          });
+    if (child.error || child.status !== 0) {
+      throw new CliError(
+        `Editor "${editor}" exited with ${child.error?.message || `code ${child.status}`}`
+      );
+    }
+
+    let data: any;
+    try {
+      data = parseYaml(fs.readFileSync(file, "utf8"));
+    } catch (error: any) {
+      throw new ValidationError(`Invalid YAML: ${error.message}`);
+    }
+    return validateMetadata(data ?? {}, "Edited metadata");
+  } finally {
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+}
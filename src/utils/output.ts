@@ -0,0 +1,82 @@
+import chalk from "chalk";
+import { CliError, exitCodeFor } from "./errors";
+
+/**
+ * Output layer shared by all commands.
+ *
+ * By default commands print human readable lines. With `--json` those lines
+ * are dropped and stdout only carries NDJSON: optional `progress` events
+ * while a command runs, then exactly one `result` (or `error`) object.
+ */
+
+let jsonMode = false;
+
+export function configureOutput(options: { json?: boolean }): void {
+  jsonMode = !!options.json;
+}
+
+export function isJsonOutput(): boolean {
+  return jsonMode;
+}
+
+function writeJson(data: Record<string, any>): void {
+  process.stdout.write(JSON.stringify(withoutUndefined(data)) + "\n");
+}
+
+function withoutUndefined(data: Record<string, any>): Record<string, any> {
+  return Object.fromEntries(
+    Object.entries(data).filter(([, value]) => value !== undefined)
+  );
+}
+
+/**
+ * Print a human readable line (skipped with --json)
+ */
+export function log(message: string = ""): void {
+  if (!jsonMode) {
+    console.log(message);
+  }
+}
+
+/**
+ * Report a step of a long running command. Only emitted with --json, the
+ * human output describes the step with log() instead.
+ */
+export function progress(event: string, data: Record<string, any> = {}): void {
+  if (jsonMode) {
+    writeJson({ type: "progress", event, ...data });
+  }
+}
+
+/**
+ * Report the outcome of a command. Human output is printed by the command
+ * itself, so this only writes the JSON result object.
+ */
+export function result(data: Record<string, any> = {}): void {
+  if (jsonMode) {
+    writeJson({ type: "result", ok: true, ...data });
+  }
+}
+
+/**
+ * Report a failed command and exit with the code matching the error
+ */
+export function fail(error: any, context?: string): never {
+  const exitCode = exitCodeFor(error);
+  const message = error?.message || String(error);
+
+  if (jsonMode) {
+    writeJson({
+      type: "error",
+      ok: false,
+      error: error?.name || "Error",
+      message,
+      exitCode,
+      ...(error instanceof CliError ? error.data : undefined),
+    });
+  } else {
+    console.error(chalk.red(`❌ ${context ? `${context}: ` : ""}${message}`));
+  }
+
+  process.exit(exitCode);
+}
@@ -0,0 +1,130 @@
+import { createInterface } from "readline";
+import inquirer from "inquirer";
+import { MissingInputError } from "./errors";
+import { isJsonOutput } from "./output";
+
+let nonInteractive = false;
+let assumeYes = false;
+
+/**
+ * Configure prompts from the global options. `--yes` implies
+ * `--non-interactive`, and so does a stdin that is not a terminal.
+ */
+export function configurePrompts(options: {
+  yes?: boolean;
+  nonInteractive?: boolean;
+}): void {
+  assumeYes = !!options.yes;
+  nonInteractive = assumeYes || !!options.nonInteractive || !process.stdin.isTTY;
+}
+
+export function isInteractive(): boolean {
+  return !nonInteractive;
+}
+
+function ask(question: string): Promise<string> {
+  return new Promise((resolve) => {
+    // Keep stdout clean for --json
+    const rl = createInterface({
+      input: process.stdin,
+      output: isJsonOutput() ? process.stderr : process.stdout,
+    });
+
+    rl.question(question, (answer) => {
+      rl.close();
+      resolve(answer.trim());
+    });
+  });
+}
+
+/**
+ * Ask for a value. Non-interactively the default is used, and a missing
+ * default fails with a MissingInputError naming `hint` (e.g. a flag).
+ */
+export async function prompt(
+  question: string,
+  defaultValue?: string,
+  hint?: string
+): Promise<string> {
+  if (nonInteractive) {
+    if (defaultValue !== undefined) {
+      return defaultValue;
+    }
+    throw new MissingInputError(
+      `Missing input: ${question}${hint ? ` (use ${hint})` : ""}`
+    );
+  }
+
+  const promptText = defaultValue
+    ? `${question} (${defaultValue}): `
+    : `${question}: `;
+  const answer = await ask(promptText);
+  return answer || defaultValue || "";
+}
+
+/**
+ * Ask a yes/no question. Non-interactively the default is used, even with
+ * `--yes`: a default marks a choice between two outcomes (e.g. keep or reset
+ * a URL), not an action to confirm. Questions without a default need `--yes`
+ * and fail otherwise.
+ */
+export async function confirm(
+  question: string,
+  defaultValue?: boolean
+): Promise<boolean> {
+  if (nonInteractive) {
+    if (defaultValue !== undefined) {
+      return defaultValue;
+    }
+    if (assumeYes) {
+      return true;
+    }
+    throw new MissingInputError(
+      `Confirmation required: ${question} (pass --yes to confirm)`
+    );
+  }
+
+  const answer = (
+    await ask(`${question} (${defaultValue ? "Y/n" : "y/N"}): `)
+  ).toLowerCase();
+  if (!answer) {
+    return !!defaultValue;
+  }
+  return answer === "y" || answer === "yes";
+}
+
+export interface Choice<T> {
+  name: string;
+  value: T;
+  checked?: boolean;
+}
+
+/**
+ * Pick any number of choices with a checkbox list. There is no sensible
+ * default, so this fails non-interactively; commands offer flags instead.
+ */
+export async function selectMany<T>(
+  question: string,
+  choices: Choice<T>[],
+  hint?: string
+): Promise<T[]> {
+  if (nonInteractive) {
+    throw new MissingInputError(
+      `Missing input: ${question}${hint ? ` (use ${hint})` : ""}`
+    );
+  }
+
+  // Keep stdout clean for --json
+  const promptModule = inquirer.createPromptModule({
+    output: isJsonOutput() ? process.stderr : process.stdout,
+  });
+  const { selected } = await promptModule<{ selected: T[] }>([
+    {
+      type: "checkbox",
+      name: "selected",
+      message: question,
+      choices,
+    },
+  ]);
+  return selected;
+}
@@ -0,0 +1,599 @@
+import fs from "fs";
+import path from "path";
+import ts from "typescript";
+import { PropSchema, PropsSchema } from "./api";
+import { findManifestRoot } from "./manifest";
+
+/**
+ * A prop found in the props interface, with its source location.
+ * Nested object props are listed with a dotted path (`config.theme`).
+ */
+export interface ParsedProp {
+  path: string;
+  line: number;
+  column: number;
+  optional: boolean;
+  description?: string;
+  typeText: string;
+  // Undefined when the type cannot be edited by the props editor
+  schema?: PropSchema;
+  unsupportedReason?: string;
+}
+
+export interface ParsedProps {
+  file: string;
+  interfaceName: string;
+  line: number;
+  schema: PropsSchema;
+  props: ParsedProp[];
+}
+
+export class PropsParseError extends Error {
+  constructor(
+    message: string,
+    public file: string,
+    public line: number = 1,
+    public column: number = 1
+  ) {
+    super(message);
+    this.name = "PropsParseError";
+  }
+}
+
+export const DEFAULT_BLOCK_FILE = path.join("src", "block.tsx");
+
+// Name heuristics used by the platform to pick a media editor for strings
+const MEDIA_PATTERNS: [RegExp, string][] = [
+  [/colou?r/i, "color"],
+  [/(image|img|picture|photo|thumbnail|avatar|icon|logo)/i, "image"],
+  [/video/i, "video"],
+  [/(audio|sound|music|narration)/i, "audio"],
+  [/(model|glb|gltf|3d)/i, "model3d"],
+];
+
+/**
+ * Locate the block file: an explicit path, or `src/block.tsx` at the
+ * repository root (found through the block manifest) or the current directory
+ */
+export function resolveBlockFile(file?: string): string {
+  if (file) {
+    return path.resolve(process.cwd(), file);
+  }
+  const root = findManifestRoot() || process.cwd();
+  return path.join(root, DEFAULT_BLOCK_FILE);
+}
+
+/**
+ * Detect the media type of a string prop from its name
+ */
+export function detectMediaType(name: string): string | undefined {
+  const match = MEDIA_PATTERNS.find(([pattern]) => pattern.test(name));
+  return match?.[1];
+}
+
+type TypeDeclaration =
+  | ts.InterfaceDeclaration
+  | ts.TypeAliasDeclaration
+  | ts.EnumDeclaration;
+
+class PropsParser {
+  private declarations = new Map<string, TypeDeclaration>();
+  private props: ParsedProp[] = [];
+  // Guards against recursive type references
+  private resolving = new Set<string>();
+  // Where the default export names its props type, for error locations
+  private propsTypeReference?: ts.Node;
+
+  constructor(private sourceFile: ts.SourceFile, private file: string) {
+    for (const statement of sourceFile.statements) {
+      if (
+        ts.isInterfaceDeclaration(statement) ||
+        ts.isTypeAliasDeclaration(statement) ||
+        ts.isEnumDeclaration(statement)
+      ) {
+        this.declarations.set(statement.name.text, statement);
+      }
+    }
+  }
+
+  parse(): ParsedProps {
+    const interfaceName = this.findPropsTypeName();
+    const declaration = this.declarations.get(interfaceName);
+
+    if (!declaration || ts.isEnumDeclaration(declaration)) {
+      const message = `Props type "${interfaceName}" is not declared in ${path.basename(
+        this.file
+      )}`;
+      throw this.propsTypeReference
+        ? this.errorAt(this.propsTypeReference, message)
+        : new PropsParseError(message, this.file);
+    }
+
+    const members = this.getMembers(declaration);
+    if (!members) {
+      throw this.errorAt(
+        declaration,
+        `Props type "${interfaceName}" must be an interface or object type`
+      );
+    }
+
+    this.resolving.add(interfaceName);
+    const { properties, required } = this.convertMembers(members, "");
+    this.resolving.delete(interfaceName);
+
+    const schema: PropsSchema = { type: "object", properties };
+    if (required.length > 0) {
+      schema.required = required;
+    }
+
+    return {
+      file: this.file,
+      interfaceName,
+      line: this.position(declaration.name).line,
+      schema,
+      props: this.props,
+    };
+  }
+
+  /**
+   * Find the props type: the first parameter of the default export,
+   * then `BlockProps`, then the only type whose name ends with `Props`.
+   */
+  private findPropsTypeName(): string {
+    const fromExport = this.findDefaultExportPropsType();
+    if (fromExport) {
+      return fromExport;
+    }
+
+    if (this.declarations.has("BlockProps")) {
+      return "BlockProps";
+    }
+
+    const candidates = [...this.declarations.keys()].filter(
+      (name) =>
+        name.endsWith("Props") &&
+        !ts.isEnumDeclaration(this.declarations.get(name)!)
+    );
+    if (candidates.length === 1) {
+      return candidates[0];
+    }
+
+    throw new PropsParseError(
+      candidates.length === 0
+        ? "No props interface found. Declare `interface BlockProps` and use it in the default export"
+        : `Several props types found (${candidates.join(
+            ", "
+          )}). Use one of them as the type of the default export's props`,
+      this.file
+    );
+  }
+
+  private findDefaultExportPropsType(): string | undefined {
+    let exported: ts.Node | undefined;
+
+    for (const statement of this.sourceFile.statements) {
+      if (
+        ts.isFunctionDeclaration(statement) &&
+        statement.modifiers?.some(
+          (m) => m.kind === ts.SyntaxKind.DefaultKeyword
+        )
+      ) {
+        exported = statement;
+      } else if (ts.isExportAssignment(statement) && !statement.isExportEquals) {
+        exported = statement.expression;
+      }
+    }
+
+    // `export default Block` refers to a local function or variable
+    if (exported && ts.isIdentifier(exported)) {
+      const name = exported.text;
+      exported = undefined;
+      for (const statement of this.sourceFile.statements) {
+        if (ts.isFunctionDeclaration(statement) && statement.name?.text === name) {
+          exported = statement;
+        } else if (ts.isVariableStatement(statement)) {
+          for (const decl of statement.declarationList.declarations) {
+            if (ts.isIdentifier(decl.name) && decl.name.text === name) {
+              exported = decl;
+            }
+          }
+        }
+      }
+    }
+
+    if (!exported) {
+      return undefined;
+    }
+
+    // `const Block: React.FC<BlockProps> = ...`
+    if (ts.isVariableDeclaration(exported)) {
+      const typeArg = this.getComponentTypeArgument(exported.type);
+      if (typeArg) {
+        return typeArg;
+      }
+      exported = exported.initializer;
+    }
+
+    // Unwrap `React.memo(...)` and similar wrappers
+    while (exported && ts.isCallExpression(exported) && exported.arguments.length > 0) {
+      exported = exported.arguments[0];
+    }
+
+    if (
+      exported &&
+      (ts.isFunctionDeclaration(exported) ||
+        ts.isArrowFunction(exported) ||
+        ts.isFunctionExpression(exported))
+    ) {
+      const param = exported.parameters[0];
+      if (param?.type && ts.isTypeReferenceNode(param.type)) {
+        this.propsTypeReference = param.type;
+        return param.type.typeName.getText(this.sourceFile);
+      }
+    }
+
+    return undefined;
+  }
+
+  private getComponentTypeArgument(type?: ts.TypeNode): string | undefined {
+    if (
+      type &&
+      ts.isTypeReferenceNode(type) &&
+      /(^|\.)(FC|FunctionComponent|ComponentType)$/.test(
+        type.typeName.getText(this.sourceFile)
+      )
+    ) {
+      const arg = type.typeArguments?.[0];
+      if (arg && ts.isTypeReferenceNode(arg)) {
+        this.propsTypeReference = arg;
+        return arg.typeName.getText(this.sourceFile);
+      }
+    }
+    return undefined;
+  }
+
+  private getMembers(
+    declaration: ts.InterfaceDeclaration | ts.TypeAliasDeclaration
+  ): ts.TypeElement[] | undefined {
+    if (ts.isTypeAliasDeclaration(declaration)) {
+      return ts.isTypeLiteralNode(declaration.type)
+        ? [...declaration.type.members]
+        : undefined;
+    }
+
+    // Include members of local interfaces this one extends
+    const members: ts.TypeElement[] = [];
+    for (const clause of declaration.heritageClauses || []) {
+      for (const heritage of clause.types) {
+        const base = this.declarations.get(
+          heritage.expression.getText(this.sourceFile)
+        );
+        if (base && !ts.isEnumDeclaration(base)) {
+          members.push(...(this.getMembers(base) || []));
+        }
+      }
+    }
+    members.push(...declaration.members);
+    return members;
+  }
+
+  private convertMembers(
+    members: ts.TypeElement[],
+    prefix: string
+  ): { properties: Record<string, PropSchema>; required: string[] } {
+    const properties: Record<string, PropSchema> = {};
+    const required: string[] = [];
+
+    for (const member of members) {
+      if (!ts.isPropertySignature(member) && !ts.isMethodSignature(member)) {
+        continue;
+      }
+
+      const name = this.getPropertyName(member.name);
+      if (!name) {
+        continue;
+      }
+
+      const propPath = prefix ? `${prefix}.${name}` : name;
+      const { line, column } = this.position(member.name);
+      const optional = !!member.questionToken;
+      const description = this.getDescription(member);
+      const typeText = ts.isMethodSignature(member)
+        ? "function"
+        : member.type?.getText(this.sourceFile) || "any";
+
+      const prop: ParsedProp = {
+        path: propPath,
+        line,
+        column,
+        optional,
+        description,
+        typeText,
+      };
+      this.props.push(prop);
+
+      const converted = ts.isMethodSignature(member)
+        ? { reason: "functions cannot be edited in the props editor" }
+        : this.convertType(member.type, name, propPath);
+
+      if ("reason" in converted) {
+        prop.unsupportedReason = converted.reason;
+        continue;
+      }
+
+      const schema = converted.schema;
+      if (description) {
+        schema.description = description;
+      }
+      this.applyTags(member, schema);
+
+      prop.schema = schema;
+      properties[name] = schema;
+      if (!optional) {
+        required.push(name);
+      }
+    }
+
+    return { properties, required };
+  }
+
+  private convertType(
+    type: ts.TypeNode | undefined,
+    name: string,
+    propPath: string
+  ): { schema: PropSchema } | { reason: string } {
+    if (!type) {
+      return { reason: "missing type annotation" };
+    }
+
+    switch (type.kind) {
+      case ts.SyntaxKind.StringKeyword: {
+        const schema: PropSchema = { type: "string" };
+        const format = detectMediaType(name);
+        if (format) {
+          schema.format = format;
+        }
+        return { schema };
+      }
+      case ts.SyntaxKind.NumberKeyword:
+        return { schema: { type: "number" } };
+      case ts.SyntaxKind.BooleanKeyword:
+        return { schema: { type: "boolean" } };
+      case ts.SyntaxKind.AnyKeyword:
+      case ts.SyntaxKind.UnknownKeyword:
+        return { reason: `"${type.getText(this.sourceFile)}" has no editable shape` };
+    }
+
+    if (ts.isParenthesizedTypeNode(type)) {
+      return this.convertType(type.type, name, propPath);
+    }
+
+    if (ts.isFunctionTypeNode(type)) {
+      return { reason: "functions cannot be edited in the props editor" };
+    }
+
+    if (ts.isLiteralTypeNode(type)) {
+      return this.convertUnion([type], name, propPath);
+    }
+
+    if (ts.isUnionTypeNode(type)) {
+      return this.convertUnion([...type.types], name, propPath);
+    }
+
+    if (ts.isArrayTypeNode(type)) {
+      return this.convertArray(type.elementType, name, propPath);
+    }
+
+    if (ts.isTypeLiteralNode(type)) {
+      return { schema: this.convertObject([...type.members], propPath) };
+    }
+
+    if (ts.isTypeReferenceNode(type)) {
+      const refName = type.typeName.getText(this.sourceFile);
+
+      if ((refName === "Array" || refName === "ReadonlyArray") && type.typeArguments?.length === 1) {
+        return this.convertArray(type.typeArguments[0], name, propPath);
+      }
+
+      if (refName === "Record") {
+        return { schema: { type: "object" } };
+      }
+
+      const declaration = this.declarations.get(refName);
+      if (!declaration) {
+        return { reason: `type "${refName}" cannot be resolved from this file` };
+      }
+
+      if (this.resolving.has(refName)) {
+        return { reason: `type "${refName}" is recursive` };
+      }
+
+      this.resolving.add(refName);
+      try {
+        if (ts.isEnumDeclaration(declaration)) {
+          return { schema: this.convertEnum(declaration) };
+        }
+        if (ts.isTypeAliasDeclaration(declaration)) {
+          return this.convertType(declaration.type, name, propPath);
+        }
+        return {
+          schema: this.convertObject(this.getMembers(declaration) || [], propPath),
+        };
+      } finally {
+        this.resolving.delete(refName);
+      }
+    }
+
+    return { reason: `type "${type.getText(this.sourceFile)}" is not supported` };
+  }
+
+  private convertArray(
+    elementType: ts.TypeNode,
+    name: string,
+    propPath: string
+  ): { schema: PropSchema } | { reason: string } {
+    const items = this.convertType(elementType, name, `${propPath}[]`);
+    if ("reason" in items) {
+      return { reason: `array items: ${items.reason}` };
+    }
+    return { schema: { type: "array", items: items.schema } };
+  }
+
+  private convertObject(members: ts.TypeElement[], propPath: string): PropSchema {
+    const { properties, required } = this.convertMembers(members, propPath);
+    const schema: PropSchema = { type: "object", properties };
+    if (required.length > 0) {
+      schema.required = required;
+    }
+    return schema;
+  }
+
+  // Literal unions become enums; `undefined` and `null` members are ignored
+  private convertUnion(
+    types: ts.TypeNode[],
+    name: string,
+    propPath: string
+  ): { schema: PropSchema } | { reason: string } {
+    const members = types.filter(
+      (t) =>
+        t.kind !== ts.SyntaxKind.UndefinedKeyword &&
+        !(ts.isLiteralTypeNode(t) && t.literal.kind === ts.SyntaxKind.NullKeyword)
+    );
+
+    if (members.length === 1 && !ts.isLiteralTypeNode(members[0])) {
+      return this.convertType(members[0], name, propPath);
+    }
+
+    const values: (string | number)[] = [];
+    let isBoolean = true;
+    for (const member of members) {
+      if (!ts.isLiteralTypeNode(member)) {
+        return {
+          reason: `union "${types
+            .map((t) => t.getText(this.sourceFile))
+            .join(" | ")}" mixes literal and non-literal types`,
+        };
+      }
+      const literal = member.literal;
+      if (ts.isStringLiteral(literal)) {
+        values.push(literal.text);
+        isBoolean = false;
+      } else if (ts.isNumericLiteral(literal)) {
+        values.push(Number(literal.text));
+        isBoolean = false;
+      } else if (
+        ts.isPrefixUnaryExpression(literal) &&
+        literal.operator === ts.SyntaxKind.MinusToken &&
+        ts.isNumericLiteral(literal.operand)
+      ) {
+        values.push(-Number(literal.operand.text));
+        isBoolean = false;
+      } else if (
+        literal.kind !== ts.SyntaxKind.TrueKeyword &&
+        literal.kind !== ts.SyntaxKind.FalseKeyword
+      ) {
+        return { reason: `literal "${member.getText(this.sourceFile)}" is not supported` };
+      }
+    }
+
+    if (isBoolean) {
+      return { schema: { type: "boolean" } };
+    }
+
+    const allNumbers = values.every((value) => typeof value === "number");
+    return { schema: { type: allNumbers ? "number" : "string", enum: values } };
+  }
+
+  private convertEnum(declaration: ts.EnumDeclaration): PropSchema {
+    const values: (string | number)[] = [];
+    let next = 0;
+
+    for (const member of declaration.members) {
+      const initializer = member.initializer;
+      if (initializer && ts.isStringLiteral(initializer)) {
+        values.push(initializer.text);
+      } else if (initializer && ts.isNumericLiteral(initializer)) {
+        next = Number(initializer.text);
+        values.push(next++);
+      } else {
+        values.push(next++);
+      }
+    }
+
+    const allNumbers = values.length > 0 && values.every((v) => typeof v === "number");
+    return { type: allNumbers ? "number" : "string", enum: values };
+  }
+
+  // Explicit `@default` and `@format` JSDoc tags override the heuristics
+  private applyTags(member: ts.TypeElement, schema: PropSchema): void {
+    for (const tag of ts.getJSDocTags(member)) {
+      const text = ts.getTextOfJSDocComment(tag.comment)?.trim();
+      if (!text) {
+        continue;
+      }
+      if (tag.tagName.text === "default") {
+        try {
+          schema.default = JSON.parse(text);
+        } catch (error) {
+          schema.default = text;
+        }
+      } else if (tag.tagName.text === "format") {
+        schema.format = text;
+      }
+    }
+  }
+
+  private getDescription(member: ts.TypeElement): string | undefined {
+    const docs = ts
+      .getJSDocCommentsAndTags(member)
+      .filter((doc): doc is ts.JSDoc => ts.isJSDoc(doc));
+    const text = docs
+      .map((doc) => ts.getTextOfJSDocComment(doc.comment) || "")
+      .join("\n")
+      .trim();
+    return text || undefined;
+  }
+
+  private getPropertyName(name: ts.PropertyName): string | undefined {
+    if (ts.isIdentifier(name) || ts.isStringLiteral(name) || ts.isNumericLiteral(name)) {
+      return name.text;
+    }
+    return undefined;
+  }
+
+  private position(node: ts.Node): { line: number; column: number } {
+    const { line, character } = this.sourceFile.getLineAndCharacterOfPosition(
+      node.getStart(this.sourceFile)
+    );
+    return { line: line + 1, column: character + 1 };
+  }
+
+  private errorAt(node: ts.Node, message: string): PropsParseError {
+    const { line, column } = this.position(node);
+    return new PropsParseError(message, this.file, line, column);
+  }
+}
+
+/**
+ * Parse the props interface of a block source file into a props schema
+ */
+export function parsePropsSource(source: string, file: string): ParsedProps {
+  const sourceFile = ts.createSourceFile(
+    file,
+    source,
+    ts.ScriptTarget.Latest,
+    true,
+    ts.ScriptKind.TSX
+  );
+  return new PropsParser(sourceFile, file).parse();
+}
+
+/**
+ * Parse the props interface of a block file (default: `src/block.tsx`)
+ */
+export function parsePropsFile(file: string): ParsedProps {
+  if (!fs.existsSync(file)) {
+    throw new PropsParseError(`Block file not found: ${file}`, file);
+  }
+  return parsePropsSource(fs.readFileSync(file, "utf8"), file);
+}
@@ -0,0 +1,57 @@
+import chalk from "chalk";
+import { GitManager, RemoteStatus } from "./git";
+import { CliError, ExitCode } from "./errors";
+import { log, progress } from "./output";
+
+export interface PullResult {
+  branch: string;
+  strategy: "up-to-date" | "fast-forward" | "rebase";
+  // Commits brought in from origin
+  pulled: number;
+}
+
+/**
+ * Bring the remote commits into the current branch. Fails with a CliError
+ * listing the conflicted files when the rebase stops.
+ */
+export async function pullRemoteChanges(
+  gitManager: GitManager,
+  status: RemoteStatus
+): Promise<PullResult> {
+  if (!status.remoteBranch || status.behind === 0) {
+    return { branch: status.branch, strategy: "up-to-date", pulled: 0 };
+  }
+
+  const strategy = status.ahead > 0 ? "rebase" : "fast-forward";
+  log(
+    chalk.yellow(
+      strategy === "rebase"
+        ? `🔀 Rebasing ${status.ahead} local commit(s) onto ${status.behind} new commit(s) from ${status.remoteBranch}...`
+        : `⏩ Fast-forwarding ${status.behind} commit(s) from ${status.remoteBranch}...`
+    )
+  );
+
+  const conflicts = await gitManager.rebaseOntoRemote(status.remoteBranch);
+  if (conflicts.length > 0) {
+    console.error(chalk.red(`\n⚠️  ${conflicts.length} file(s) have conflicts:`));
+    for (const file of conflicts) {
+      console.error(chalk.red(`   ✖ ${file}`));
+    }
+    log(chalk.yellow("\n   Resolve the conflicts, then run:"));
+    log(chalk.gray("     git add <files> && git rebase --continue"));
+    log(chalk.gray("   Or go back to where you were: mexty pull --abort"));
+    throw new CliError(
+      `Pull stopped with conflicts in ${conflicts.length} file(s)`,
+      ExitCode.Error,
+      { conflicts }
+    );
+  }
+
+  log(chalk.green(`✅ Pulled ${status.behind} commit(s) from ${status.remoteBranch}`));
+  progress("pulled", {
+    branch: status.branch,
+    strategy,
+    pulled: status.behind,
+  });
+  return { branch: status.branch, strategy, pulled: status.behind };
+}
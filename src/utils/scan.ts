@@ -0,0 +1,252 @@
+import chalk from "chalk";
+import fs from "fs";
+import path from "path";
+import { GitBlob, GitManager } from "./git";
+import { log } from "./output";
+
+// Files above this size don't belong in a block repository, host them instead
+export const DEFAULT_MAX_FILE_SIZE = 5 * 1024 * 1024;
+
+export const IGNORE_FILE = ".mextyignore";
+
+// A line containing this marker is never reported
+const ALLOW_MARKER = "mexty-scan-allow";
+
+export type ScanRule = "secret" | "private-key" | "env-file" | "large-file";
+
+export interface ScanFinding {
+  rule: ScanRule;
+  file: string;
+  line?: number;
+  message: string;
+}
+
+export interface ScanOptions {
+  maxFileSize?: number;
+}
+
+export interface ScanResult {
+  findings: ScanFinding[];
+  scanned: number;
+  // Files skipped through .mextyignore
+  ignored: number;
+}
+
+const SECRET_PATTERNS: { name: string; pattern: RegExp }[] = [
+  { name: "AWS access key", pattern: /\b(?:AKIA|ASIA)[0-9A-Z]{16}\b/ },
+  { name: "GitHub token", pattern: /\b(?:gh[pousr]_[A-Za-z0-9]{36,}|github_pat_[A-Za-z0-9_]{60,})\b/ },
+  { name: "GitLab token", pattern: /\bglpat-[A-Za-z0-9_-]{20,}\b/ },
+  { name: "Slack token", pattern: /\bxox[abposr]-[A-Za-z0-9-]{10,}\b/ },
+  { name: "Stripe secret key", pattern: /\b[sr]k_live_[A-Za-z0-9]{20,}\b/ },
+  { name: "Google API key", pattern: /\bAIza[0-9A-Za-z_-]{35}\b/ },
+  { name: "Anthropic API key", pattern: /\bsk-ant-[A-Za-z0-9_-]{20,}/ },
+  { name: "OpenAI API key", pattern: /\bsk-(?:proj-)?[A-Za-z0-9_-]{32,}/ },
+  {
+    name: "hardcoded credential",
+    pattern: /\b(?:api[_-]?key|secret|access[_-]?token|auth[_-]?token|password|passwd)\b["']?\s*[:=]\s*["'`][^"'`\s]{12,}["'`]/i,
+  },
+];
+
+const PRIVATE_KEY_PATTERN = /-----BEGIN (?:[A-Z]+ )?PRIVATE KEY(?: BLOCK)?-----/;
+
+// .env files, except the documented examples
+function isEnvFile(file: string): boolean {
+  const name = path.basename(file);
+  return /^\.env(\..+)?$/.test(name) && !/\.(example|sample|template)$/.test(name);
+}
+
+interface IgnoreEntry {
+  rule?: ScanRule;
+  pattern: RegExp;
+}
+
+/**
+ * Convert a gitignore-style pattern to a regular expression. Patterns
+ * without a slash match the file name in any directory.
+ */
+function globToRegExp(glob: string): RegExp {
+  const anchored = glob.replace(/\/$/, "").includes("/");
+  const body = glob
+    .replace(/^\//, "")
+    .replace(/\/$/, "/**")
+    .split("**")
+    .map((part) =>
+      part
+        .replace(/[.+^${}()|[\]\\]/g, "\\$&")
+        .replace(/\*/g, "[^/]*")
+        .replace(/\?/g, "[^/]")
+    )
+    .join(".*");
+  return new RegExp(`^${anchored ? "" : "(?:.*/)?"}${body}$`);
+}
+
+/**
+ * Read `.mextyignore`: one path pattern per line, optionally prefixed with
+ * a rule (`large-file:assets/*.glb`) to allow only that kind of finding
+ */
+export function readIgnoreFile(root: string): IgnoreEntry[] {
+  const file = path.join(root, IGNORE_FILE);
+  if (!fs.existsSync(file)) {
+    return [];
+  }
+
+  return fs
+    .readFileSync(file, "utf8")
+    .split(/\r?\n/)
+    .map((line) => line.trim())
+    .filter((line) => line && !line.startsWith("#"))
+    .map((line) => {
+      const match = line.match(/^(secret|private-key|env-file|large-file):(.+)$/);
+      return match
+        ? { rule: match[1] as ScanRule, pattern: globToRegExp(match[2].trim()) }
+        : { pattern: globToRegExp(line) };
+    });
+}
+
+function isIgnored(entries: IgnoreEntry[], file: string, rule?: ScanRule): boolean {
+  return entries.some(
+    (entry) => (!entry.rule || entry.rule === rule) && entry.pattern.test(file)
+  );
+}
+
+function formatSize(bytes: number): string {
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+/**
+ * What the next push sends: the staged version of `stagedPaths` and every
+ * blob of the commits that are on no remote yet
+ */
+export async function outgoingBlobs(
+  gitManager: GitManager,
+  stagedPaths: string[]
+): Promise<GitBlob[]> {
+  return [
+    ...(await gitManager.getIndexBlobs(stagedPaths)),
+    ...(await gitManager.getUnpushedBlobs()),
+  ];
+}
+
+/**
+ * Look for secrets, private keys, .env files and oversized files among
+ * `blobs`. Content is read from the repository, not the working tree, so a
+ * file changed or deleted after it was committed is scanned as committed.
+ */
+export async function scanBlobs(
+  gitManager: GitManager,
+  root: string,
+  blobs: GitBlob[],
+  options: ScanOptions = {}
+): Promise<ScanResult> {
+  const maxFileSize = options.maxFileSize ?? DEFAULT_MAX_FILE_SIZE;
+  const ignoreEntries = readIgnoreFile(root);
+  const pathIgnores = ignoreEntries.filter((entry) => !entry.rule);
+  const findings: ScanFinding[] = [];
+  let ignored = 0;
+
+  // The same content at the same path is scanned once
+  const unique = new Map<string, GitBlob>();
+  for (const blob of blobs) {
+    unique.set(`${blob.oid} ${blob.path}`, blob);
+  }
+  const targets = [...unique.values()].filter((blob) => {
+    if (isIgnored(pathIgnores, blob.path)) {
+      ignored++;
+      return false;
+    }
+    return true;
+  });
+
+  const objects = await gitManager.readObjects(
+    targets.map((blob) => blob.oid),
+    maxFileSize
+  );
+  let scanned = 0;
+
+  for (const { oid, path: file } of targets) {
+    const object = objects.get(oid);
+    if (!object || object.type !== "blob") {
+      continue;
+    }
+    scanned++;
+
+    const report = (finding: ScanFinding) => {
+      const duplicate = findings.some(
+        (existing) =>
+          existing.file === finding.file &&
+          existing.line === finding.line &&
+          existing.rule === finding.rule
+      );
+      if (!duplicate && !isIgnored(ignoreEntries, file, finding.rule)) {
+        findings.push(finding);
+      }
+    };
+
+    if (isEnvFile(file)) {
+      report({
+        rule: "env-file",
+        file,
+        message: "Environment file, it usually holds secrets",
+      });
+    }
+
+    if (object.size > maxFileSize) {
+      report({
+        rule: "large-file",
+        file,
+        message: `${formatSize(object.size)} is over the ${formatSize(maxFileSize)} limit, host it and load it by URL`,
+      });
+      continue;
+    }
+
+    const content = object.content;
+    if (!content || content.subarray(0, 8000).includes(0)) {
+      continue;
+    }
+
+    content
+      .toString("utf8")
+      .split("\n")
+      .forEach((text, index) => {
+        if (text.includes(ALLOW_MARKER)) {
+          return;
+        }
+        if (PRIVATE_KEY_PATTERN.test(text)) {
+          report({ rule: "private-key", file, line: index + 1, message: "Private key" });
+          return;
+        }
+        const secret = SECRET_PATTERNS.find(({ pattern }) => pattern.test(text));
+        if (secret) {
+          report({
+            rule: "secret",
+            file,
+            line: index + 1,
+            message: `Possible ${secret.name}`,
+          });
+        }
+      });
+  }
+
+  return { findings, scanned, ignored };
+}
+
+/**
+ * Print findings as `file:line  message` lines
+ */
+export function printScanFindings(findings: ScanFinding[]): void {
+  for (const finding of findings) {
+    const location = finding.line ? `${finding.file}:${finding.line}` : finding.file;
+    log(chalk.red(`✖   ${location}  ${finding.message} (${finding.rule})`));
+  }
+}
+
+/**
+ * How to get past a finding that was reviewed
+ */
+export function printScanHelp(): void {
+  log(chalk.gray("\n   Remove the secret or file, or allow a reviewed exception:"));
+  log(chalk.gray(`     - add "${ALLOW_MARKER}" in a comment on the line`));
+  log(chalk.gray(`     - add the path to ${IGNORE_FILE}, e.g. "large-file:assets/*.glb"`));
+  log(chalk.gray("   Content of unpushed commits is scanned too, even when the file changed"));
+  log(chalk.gray("   since. Remove it from those commits (git commit --amend, git rebase -i)."));
+}
@@ -0,0 +1,55 @@
+import { isJsonOutput, log } from "./output";
+
+// Simple spinner implementation since ora v5 has import issues
+export class SimpleSpinner {
+  private message: string;
+  private interval: NodeJS.Timeout | null = null;
+  private frames = ["⠋", "⠙", "⠹", "⠸", "⠼", "⠴", "⠦", "⠧", "⠇", "⠏"];
+  private currentFrame = 0;
+
+  constructor(message: string) {
+    this.message = message;
+  }
+
+  // Add setter for message text
+  set text(newMessage: string) {
+    this.message = newMessage;
+  }
+
+  start(): this {
+    // Keep stdout clean for --json
+    if (isJsonOutput()) {
+      return this;
+    }
+    process.stdout.write(this.message);
+    this.interval = setInterval(() => {
+      process.stdout.write(
+        `\r${this.frames[this.currentFrame]} ${this.message}`
+      );
+      this.currentFrame = (this.currentFrame + 1) % this.frames.length;
+    }, 80);
+    return this;
+  }
+
+  succeed(message: string): void {
+    this.stop();
+    log(`\r✅ ${message}`);
+  }
+
+  fail(message: string): void {
+    this.stop();
+    log(`\r❌ ${message}`);
+  }
+
+  private stop(): void {
+    if (this.interval) {
+      clearInterval(this.interval);
+      this.interval = null;
+      process.stdout.write("\r");
+    }
+  }
+}
+
+export function ora(message: string): SimpleSpinner {
+  return new SimpleSpinner(message);
+}
@@ -0,0 +1,243 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+import simpleGit from "simple-git";
+import { readConfig } from "./config";
+import { ValidationError } from "./errors";
+
+// Brick types of blocks created without a template
+export const DEFAULT_ALLOWED_BRICK_TYPES = ["text", "image", "video", "code", "quiz"];
+
+// Shipped with the CLI, next to dist/
+export const BUILTIN_TEMPLATES_DIR = path.join(__dirname, "..", "..", "templates");
+
+export const TEMPLATE_MANIFEST = "template.json";
+
+// Never copied from a template into the block repository
+const IGNORED_ENTRIES = [TEMPLATE_MANIFEST, ".git", "node_modules"];
+
+/**
+ * Optional `template.json` at the root of a template
+ */
+export interface TemplateManifest {
+  description?: string;
+  blockType?: string;
+  allowedBrickTypes?: string[];
+  // Merged into the block's package.json
+  dependencies?: Record<string, string>;
+  devDependencies?: Record<string, string>;
+}
+
+export interface TemplateInfo {
+  name: string;
+  description?: string;
+  // Directory, git URL or path the template comes from
+  source: string;
+  builtIn: boolean;
+}
+
+export interface ResolvedTemplate {
+  name: string;
+  dir: string;
+  manifest: TemplateManifest;
+}
+
+/**
+ * Values substituted for `{{placeholder}}` in template files
+ */
+export interface TemplateValues {
+  blockName: string;
+  blockId: string;
+  blockDescription: string;
+  blockType: string;
+}
+
+export function isValidTemplateName(name: string): boolean {
+  return /^[a-z0-9][a-z0-9_-]*$/i.test(name);
+}
+
+export function isGitUrl(source: string): boolean {
+  return /^(https?:\/\/|ssh:\/\/|git@)/.test(source) || source.endsWith(".git");
+}
+
+function readTemplateManifest(dir: string): TemplateManifest {
+  const manifestPath = path.join(dir, TEMPLATE_MANIFEST);
+  if (!fs.existsSync(manifestPath)) {
+    return {};
+  }
+  try {
+    return JSON.parse(fs.readFileSync(manifestPath, "utf8"));
+  } catch (error: any) {
+    throw new ValidationError(`Could not parse ${manifestPath}: ${error.message}`);
+  }
+}
+
+function listBuiltInTemplates(): TemplateInfo[] {
+  if (!fs.existsSync(BUILTIN_TEMPLATES_DIR)) {
+    return [];
+  }
+
+  return fs
+    .readdirSync(BUILTIN_TEMPLATES_DIR, { withFileTypes: true })
+    .filter((entry) => entry.isDirectory())
+    .map((entry) => {
+      const dir = path.join(BUILTIN_TEMPLATES_DIR, entry.name);
+      return {
+        name: entry.name,
+        description: readTemplateManifest(dir).description,
+        source: dir,
+        builtIn: true,
+      };
+    });
+}
+
+/**
+ * Built-in templates followed by the ones registered with `mexty templates add`
+ */
+export function listTemplates(): TemplateInfo[] {
+  const registered = Object.entries(readConfig().templates || {}).map(
+    ([name, source]) => ({
+      name,
+      // Reading a git template's description would need a clone
+      description:
+        !isGitUrl(source) && fs.existsSync(source)
+          ? readTemplateManifest(source).description
+          : undefined,
+      source,
+      builtIn: false,
+    })
+  );
+  return [...listBuiltInTemplates(), ...registered];
+}
+
+/**
+ * Shallow clone a git template into a temporary directory, removed on exit
+ */
+async function cloneTemplate(url: string): Promise<string> {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), "mexty-template-"));
+  process.once("exit", () => fs.rmSync(dir, { recursive: true, force: true }));
+
+  try {
+    await simpleGit().clone(url, dir, ["--depth", "1"]);
+  } catch (error: any) {
+    throw new ValidationError(`Could not clone template ${url}: ${error.message}`);
+  }
+  return dir;
+}
+
+/**
+ * Find a template by name (built-in or registered), git URL or local path
+ */
+export async function resolveTemplate(source: string): Promise<ResolvedTemplate> {
+  const known = listTemplates().find((template) => template.name === source);
+  const location = known ? known.source : source;
+  const name = known ? known.name : path.basename(location).replace(/\.git$/, "");
+
+  let dir: string;
+  if (isGitUrl(location)) {
+    dir = await cloneTemplate(location);
+  } else if (fs.existsSync(location) && fs.statSync(location).isDirectory()) {
+    dir = path.resolve(location);
+  } else {
+    throw new ValidationError(
+      `Unknown template "${source}". Use a git URL, a directory or one of: ${listTemplates()
+        .map((template) => template.name)
+        .join(", ")}`
+    );
+  }
+
+  return { name, dir, manifest: readTemplateManifest(dir) };
+}
+
+// Files with a NUL byte in their first block are copied unchanged
+function isBinary(content: Buffer): boolean {
+  return content.subarray(0, 8000).includes(0);
+}
+
+function fillPlaceholders(text: string, file: string, values: TemplateValues): string {
+  // Escape values for string literals in code and JSON files. In code, "*/"
+  // also becomes "*\/" so a value can't end the comment it is placed in,
+  // inside a string literal it still reads "*/".
+  const json = file.endsWith(".json");
+  const code = /\.[cm]?[jt]sx?$/.test(file);
+  return text.replace(/\{\{(blockName|blockId|blockDescription|blockType)\}\}/g, (_, key) => {
+    const value = values[key as keyof TemplateValues];
+    if (!json && !code) {
+      return value;
+    }
+    const escaped = JSON.stringify(value).slice(1, -1);
+    return code ? escaped.replace(/\*\//g, "*\\/") : escaped;
+  });
+}
+
+function copyTemplateDir(
+  from: string,
+  to: string,
+  values: TemplateValues,
+  relativeDir: string,
+  written: string[]
+): void {
+  for (const entry of fs.readdirSync(from, { withFileTypes: true })) {
+    if (!relativeDir && IGNORED_ENTRIES.includes(entry.name)) {
+      continue;
+    }
+
+    const source = path.join(from, entry.name);
+    const target = path.join(to, entry.name);
+    const relative = path.join(relativeDir, entry.name);
+
+    if (entry.isDirectory()) {
+      fs.mkdirSync(target, { recursive: true });
+      copyTemplateDir(source, target, values, relative, written);
+    } else if (entry.isFile()) {
+      const content = fs.readFileSync(source);
+      fs.writeFileSync(
+        target,
+        isBinary(content)
+          ? content
+          : fillPlaceholders(content.toString("utf8"), entry.name, values)
+      );
+      written.push(relative);
+    }
+  }
+}
+
+function mergeDependencies(dir: string, manifest: TemplateManifest): boolean {
+  if (!manifest.dependencies && !manifest.devDependencies) {
+    return false;
+  }
+
+  const packageJsonPath = path.join(dir, "package.json");
+  if (!fs.existsSync(packageJsonPath)) {
+    return false;
+  }
+
+  const packageJson = JSON.parse(fs.readFileSync(packageJsonPath, "utf8"));
+  packageJson.dependencies = { ...packageJson.dependencies, ...manifest.dependencies };
+  if (manifest.devDependencies) {
+    packageJson.devDependencies = {
+      ...packageJson.devDependencies,
+      ...manifest.devDependencies,
+    };
+  }
+  fs.writeFileSync(packageJsonPath, JSON.stringify(packageJson, null, 2) + "\n");
+  return true;
+}
+
+/**
+ * Copy a template over a block repository, filling in the placeholders and
+ * adding the template's dependencies. Returns the files written.
+ */
+export function applyTemplate(
+  template: ResolvedTemplate,
+  targetDir: string,
+  values: TemplateValues
+): string[] {
+  const written: string[] = [];
+  copyTemplateDir(template.dir, targetDir, values, "", written);
+
+  if (mergeDependencies(targetDir, template.manifest) && !written.includes("package.json")) {
+    written.push("package.json");
+  }
+  return written;
+}
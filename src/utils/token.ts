@@ -0,0 +1,48 @@
+// Warn this long before the login expires
+export const EXPIRY_WARNING_MS = 3 * 24 * 60 * 60 * 1000;
+
+// Refresh this long before the token expires, so a running command
+// doesn't lose its session halfway
+export const REFRESH_MARGIN_MS = 5 * 60 * 1000;
+
+/**
+ * Expiry of a JWT access token, from its `exp` claim. Tokens that are not
+ * JWTs or carry no `exp` are treated as non-expiring.
+ */
+export function decodeTokenExpiry(token: string): Date | null {
+  const parts = token.split(".");
+  if (parts.length !== 3) {
+    return null;
+  }
+
+  try {
+    const payload = JSON.parse(
+      Buffer.from(parts[1], "base64url").toString("utf8")
+    );
+    return typeof payload.exp === "number" ? new Date(payload.exp * 1000) : null;
+  } catch (error) {
+    return null;
+  }
+}
+
+export function isExpired(expiresAt: Date | null, margin: number = 0): boolean {
+  return !!expiresAt && expiresAt.getTime() - margin <= Date.now();
+}
+
+/**
+ * Human readable time until (or since) the expiry, e.g. "in 2d 4h"
+ */
+export function formatExpiry(expiresAt: Date): string {
+  const diff = expiresAt.getTime() - Date.now();
+  const minutes = Math.floor(Math.abs(diff) / 60000);
+  const days = Math.floor(minutes / 1440);
+  const hours = Math.floor((minutes % 1440) / 60);
+
+  const amount =
+    days > 0
+      ? `${days}d ${hours}h`
+      : hours > 0
+      ? `${hours}h ${minutes % 60}m`
+      : `${minutes}m`;
+  return diff >= 0 ? `in ${amount}` : `${amount} ago`;
+}
@@ -0,0 +1,174 @@
+import { PropSchema, PropsSchema } from "./api";
+
+/**
+ * Convert a block title into a PascalCase component name
+ */
+export function toComponentName(title: string): string {
+  const name = title
+    .replace(/[^a-zA-Z0-9]+/g, " ")
+    .trim()
+    .split(/\s+/)
+    .filter(Boolean)
+    .map((word) => word.charAt(0).toUpperCase() + word.slice(1))
+    .join("");
+
+  if (!name) {
+    return "Block";
+  }
+
+  // Identifiers cannot start with a digit
+  return /^[0-9]/.test(name) ? `Block${name}` : name;
+}
+
+function isValidIdentifier(name: string): boolean {
+  return /^[A-Za-z_$][A-Za-z0-9_$]*$/.test(name);
+}
+
+function formatKey(name: string): string {
+  return isValidIdentifier(name) ? name : JSON.stringify(name);
+}
+
+function formatDocComment(description: string | undefined, indent: string): string {
+  if (!description) {
+    return "";
+  }
+
+  const lines = description.replace(/\*\//g, "*\\/").split(/\r?\n/);
+  if (lines.length === 1) {
+    return `${indent}/** ${lines[0]} */\n`;
+  }
+
+  return (
+    `${indent}/**\n` +
+    lines.map((line) => `${indent} * ${line}`.trimEnd()).join("\n") +
+    `\n${indent} */\n`
+  );
+}
+
+function renderProperties(
+  properties: Record<string, PropSchema>,
+  required: string[],
+  indent: string
+): string {
+  return Object.entries(properties)
+    .map(([key, prop]) => {
+      const optional = required.includes(key) ? "" : "?";
+      return (
+        formatDocComment(prop.description, indent) +
+        `${indent}${formatKey(key)}${optional}: ${schemaToType(prop, indent)};\n`
+      );
+    })
+    .join("");
+}
+
+/**
+ * Render a TypeScript type expression for a single prop schema
+ */
+export function schemaToType(schema: PropSchema | undefined, indent = ""): string {
+  if (!schema) {
+    return "unknown";
+  }
+
+  if (schema.enum && schema.enum.length > 0) {
+    return schema.enum.map((value) => JSON.stringify(value)).join(" | ");
+  }
+
+  switch (schema.type) {
+    case "string":
+      return "string";
+    case "number":
+    case "integer":
+      return "number";
+    case "boolean":
+      return "boolean";
+    case "array": {
+      const itemType = schemaToType(schema.items, indent);
+      return /[|&{]/.test(itemType) ? `Array<${itemType}>` : `${itemType}[]`;
+    }
+    case "object": {
+      if (!schema.properties || Object.keys(schema.properties).length === 0) {
+        return "Record<string, unknown>";
+      }
+      const body = renderProperties(
+        schema.properties,
+        schema.required || [],
+        `${indent}  `
+      );
+      return `{\n${body}${indent}}`;
+    }
+    default:
+      return "unknown";
+  }
+}
+
+/**
+ * Render a `.d.ts` file declaring the props interface of a block
+ */
+export function generatePropsDeclaration(
+  componentName: string,
+  schema: PropsSchema | undefined,
+  description?: string
+): string {
+  const header =
+    "// This file is generated by `mexty sync`. Do not edit it manually.\n\n";
+  const doc = formatDocComment(description, "");
+
+  if (!schema || !schema.properties || Object.keys(schema.properties).length === 0) {
+    return (
+      header +
+      doc +
+      `export interface ${componentName}Props {\n  [key: string]: unknown;\n}\n`
+    );
+  }
+
+  return (
+    header +
+    doc +
+    `export interface ${componentName}Props {\n` +
+    renderProperties(schema.properties, schema.required || [], "  ") +
+    "}\n"
+  );
+}
+
+/**
+ * Render the wrapper module exposing every synced block as a typed component
+ */
+export function generateWrapperModule(
+  components: { componentName: string; registryName: string; blockId: string }[]
+): string {
+  const lines: string[] = [
+    "// This file is generated by `mexty sync`. Do not edit it manually.",
+    "",
+    'import { createTypedBlock } from "@mexty/block";',
+  ];
+
+  for (const { componentName } of components) {
+    lines.push(
+      `import type { ${componentName}Props } from "./types/${componentName}";`
+    );
+  }
+
+  lines.push("");
+
+  for (const { componentName } of components) {
+    lines.push(`export type { ${componentName}Props };`);
+  }
+
+  if (components.length > 0) {
+    lines.push("");
+  }
+
+  // componentName is only the exported identifier, the block is looked up by
+  // the name it is registered under
+  for (const { componentName, registryName, blockId } of components) {
+    lines.push(
+      `/** Block ${blockId} */`,
+      `export const ${componentName} = createTypedBlock<${componentName}Props>(${JSON.stringify(
+        registryName
+      )});`,
+      ""
+    );
+  }
+
+  return lines.join("\n");
+}
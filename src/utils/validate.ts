@@ -0,0 +1,135 @@
+import chalk from "chalk";
+import path from "path";
+import {
+  parsePropsFile,
+  ParsedProps,
+  PropsParseError,
+} from "./props-parser";
+import { log } from "./output";
+import { ValidationError } from "./errors";
+
+export interface ValidationIssue {
+  severity: "error" | "warning";
+  message: string;
+  file: string;
+  line: number;
+  column: number;
+}
+
+export interface ValidationResult {
+  parsed?: ParsedProps;
+  issues: ValidationIssue[];
+  errorCount: number;
+  warningCount: number;
+}
+
+/**
+ * Check that a block's props can be driven by the platform's props editor.
+ * Errors: missing props interface, unsupported types in required props and
+ * enums without values. Warnings: unsupported optional props and props
+ * without a JSDoc description (errors with `strict`).
+ */
+export function validateBlockProps(
+  file: string,
+  strict = false
+): ValidationResult {
+  const issues: ValidationIssue[] = [];
+  const warning = strict ? "error" : "warning";
+  let parsed: ParsedProps | undefined;
+
+  try {
+    parsed = parsePropsFile(file);
+  } catch (error: any) {
+    if (!(error instanceof PropsParseError)) {
+      throw error;
+    }
+    issues.push({
+      severity: "error",
+      message: error.message,
+      file: error.file,
+      line: error.line,
+      column: error.column,
+    });
+  }
+
+  for (const prop of parsed?.props || []) {
+    const location = { file, line: prop.line, column: prop.column };
+
+    if (!prop.schema) {
+      issues.push({
+        ...location,
+        severity: prop.optional ? warning : "error",
+        message: prop.optional
+          ? `Optional prop "${prop.path}" will not appear in the props editor: ${prop.unsupportedReason}`
+          : `Required prop "${prop.path}" has an unsupported type: ${prop.unsupportedReason}`,
+      });
+    } else if (hasEmptyEnum(prop.schema)) {
+      issues.push({
+        ...location,
+        severity: "error",
+        message: `Prop "${prop.path}" is an enum with no values`,
+      });
+    }
+
+    if (!prop.description) {
+      issues.push({
+        ...location,
+        severity: warning,
+        message: `Prop "${prop.path}" has no JSDoc description`,
+      });
+    }
+  }
+
+  return {
+    parsed,
+    issues,
+    errorCount: issues.filter((issue) => issue.severity === "error").length,
+    warningCount: issues.filter((issue) => issue.severity === "warning").length,
+  };
+}
+
+function hasEmptyEnum(schema: { enum?: unknown[]; items?: any }): boolean {
+  if (schema.enum && schema.enum.length === 0) {
+    return true;
+  }
+  return schema.items ? hasEmptyEnum(schema.items) : false;
+}
+
+/**
+ * Print validation issues as `file:line:column` lines
+ */
+export function printValidationIssues(issues: ValidationIssue[]): void {
+  for (const issue of issues) {
+    const location = `${path.relative(process.cwd(), issue.file)}:${issue.line}:${issue.column}`;
+    const line = `   ${location}  ${issue.message}`;
+    log(
+      issue.severity === "error" ? chalk.red(`✖${line}`) : chalk.yellow(`⚠${line}`)
+    );
+  }
+}
+
+/**
+ * Preflight used by save and publish. Throws a ValidationError when the
+ * props have errors and nothing should be pushed.
+ */
+export function runPropsPreflight(file: string): void {
+  log(chalk.yellow("🔍 Validating block props..."));
+  const result = validateBlockProps(file);
+
+  printValidationIssues(result.issues);
+
+  if (result.errorCount > 0) {
+    log(chalk.gray("   Fix the errors or rerun with --skip-validation"));
+    throw new ValidationError(
+      `Props validation failed with ${result.errorCount} error(s). Nothing was pushed.`
+    );
+  }
+
+  log(
+    chalk.green(
+      `✅ Props are valid${
+        result.warningCount > 0 ? ` (${result.warningCount} warning(s))` : ""
+      }`
+    )
+  );
+}
@@ -0,0 +1,144 @@
+/**
+ * Child process of `mexty build`: runs the block's own webpack config and
+ * reports the result to the CLI over IPC. It only imports Node built-ins, the
+ * CLI's modules are not loaded next to the block's code. That code still runs
+ * as the current user with full file system access.
+ */
+import path from "path";
+
+export interface RunnerRequest {
+  root: string;
+  configFile: string;
+  outputPath: string;
+}
+
+export interface RunnerProblem {
+  message: string;
+  // Module the problem was found in, relative to the block (`./src/block.tsx`)
+  moduleName?: string;
+  // `line:column` or `line:column-endColumn`
+  loc?: string;
+}
+
+export interface RunnerFederation {
+  name?: string;
+  filename?: string;
+  exposes: { name: string; request: string; built: boolean }[];
+}
+
+export type RunnerMessage =
+  | {
+      type: "done";
+      errors: RunnerProblem[];
+      warnings: RunnerProblem[];
+      assets: string[];
+      federation: RunnerFederation | null;
+    }
+  | { type: "crash"; message: string };
+
+function send(message: RunnerMessage): void {
+  process.send!(message, () => process.exit(0));
+}
+
+// exposes is either { "./Block": "./src/block" } or a list of such objects,
+// values may be { import: "./src/block" }
+function normalizeExposes(exposes: any): { name: string; request: string }[] {
+  const entries: [string, any][] = Array.isArray(exposes)
+    ? exposes.flatMap((item) => (typeof item === "object" ? Object.entries(item) : []))
+    : Object.entries(exposes || {});
+  return entries.map(([name, value]) => {
+    const request = typeof value === "object" ? value.import : value;
+    return { name, request: Array.isArray(request) ? request[0] : String(request) };
+  });
+}
+
+function toProblem(problem: any): RunnerProblem {
+  // webpack 4 reports plain strings
+  if (typeof problem === "string") {
+    return { message: problem };
+  }
+  return {
+    message: String(problem.message || problem),
+    moduleName: problem.moduleName,
+    loc: problem.loc,
+  };
+}
+
+function stripExtension(file: string): string {
+  return file.replace(/\.[cm]?[jt]sx?$/, "");
+}
+
+async function run({ root, configFile, outputPath }: RunnerRequest): Promise<void> {
+  let webpack: any;
+  try {
+    webpack = require(require.resolve("webpack", { paths: [root] }));
+  } catch (error) {
+    send({ type: "crash", message: "webpack is not installed in this block, add it to devDependencies" });
+    return;
+  }
+
+  let config = require(configFile);
+  config = config && config.__esModule ? config.default : config;
+  if (typeof config === "function") {
+    config = await config({ production: true }, { mode: "production" });
+  }
+  const configs: any[] = Array.isArray(config) ? config : [config];
+  for (const entry of configs) {
+    entry.mode = entry.mode || "production";
+    entry.context = entry.context || root;
+    // Never write into the block's own dist folder
+    entry.output = { ...entry.output, path: outputPath };
+  }
+
+  const compiler = webpack(Array.isArray(config) ? configs : configs[0]);
+  const compilers: any[] = compiler.compilers || [compiler];
+
+  const federationPlugin = compilers
+    .flatMap((child) => child.options.plugins || [])
+    .find((plugin: any) => plugin?.constructor?.name === "ModuleFederationPlugin");
+  const federationOptions = federationPlugin?._options || federationPlugin?.options;
+
+  compiler.run((error: any, stats: any) => {
+    if (error) {
+      send({ type: "crash", message: error.stack || error.message });
+      return;
+    }
+
+    const json = stats.toJson({ all: false, errors: true, warnings: true, assets: true });
+    const children: any[] = json.children && json.children.length > 0 ? json.children : [json];
+
+    // Absolute paths of every module that went into the build
+    const resources = new Set<string>();
+    for (const child of stats.stats || [stats]) {
+      for (const module of child.compilation.modules) {
+        if (module.resource) {
+          resources.add(stripExtension(module.resource.split("?")[0]));
+        }
+      }
+    }
+
+    const context = configs[0].context;
+    send({
+      type: "done",
+      errors: children.flatMap((child) => child.errors || []).map(toProblem),
+      warnings: children.flatMap((child) => child.warnings || []).map(toProblem),
+      assets: children.flatMap((child) => (child.assets || []).map((asset: any) => asset.name)),
+      federation: federationOptions
+        ? {
+            name: federationOptions.name,
+            filename: federationOptions.filename,
+            exposes: normalizeExposes(federationOptions.exposes).map((expose) => ({
+              ...expose,
+              built: resources.has(stripExtension(path.resolve(context, expose.request))),
+            })),
+          }
+        : null,
+    });
+  });
+}
+
+process.once("message", (request: RunnerRequest) => {
+  run(request).catch((error) => {
+    send({ type: "crash", message: error?.stack || String(error) });
+  });
+});
@@ -0,0 +1,70 @@
+/**
+ * {{blockName}}
+ * {{blockDescription}}
+ *
+ * Block ID: {{blockId}}
+ */
+import React, { Suspense } from "react";
+import { Canvas } from "@react-three/fiber";
+import { Bounds, Center, Html, OrbitControls, useGLTF } from "@react-three/drei";
+
+interface BlockProps {
+  /** GLB or GLTF file to display */
+  modelUrl: string;
+  /** Color behind the model */
+  backgroundColor?: string;
+  /** Turn the model slowly until the user grabs it */
+  autoRotate?: boolean;
+  /** Degrees per second while auto rotating */
+  rotationSpeed?: number;
+  /** Text shown under the viewer */
+  caption?: string;
+  /** Viewer height in pixels */
+  height?: number;
+}
+
+function Model({ url }: { url: string }) {
+  const { scene } = useGLTF(url);
+  return <primitive object={scene} />;
+}
+
+export default function Block({
+  modelUrl,
+  backgroundColor = "#f5f5f5",
+  autoRotate = true,
+  rotationSpeed = 20,
+  caption,
+  height = 400,
+}: BlockProps) {
+  return (
+    <figure style={{ margin: 0 }}>
+      <div style={{ height, background: backgroundColor, borderRadius: 8 }}>
+        <Canvas camera={{ position: [0, 1, 4], fov: 45 }}>
+          <ambientLight intensity={0.6} />
+          <directionalLight position={[5, 5, 5]} intensity={1} />
+          <Suspense fallback={<Html center>Loading model…</Html>}>
+            {modelUrl ? (
+              <Bounds fit clip observe margin={1.2}>
+                <Center>
+                  <Model url={modelUrl} />
+                </Center>
+              </Bounds>
+            ) : (
+              <Html center>Set modelUrl to a GLB or GLTF file</Html>
+            )}
+          </Suspense>
+          <OrbitControls
+            makeDefault
+            autoRotate={autoRotate}
+            autoRotateSpeed={rotationSpeed / 6}
+          />
+        </Canvas>
+      </div>
+      {caption && (
+        <figcaption style={{ marginTop: 8, textAlign: "center", color: "#555" }}>
+          {caption}
+        </figcaption>
+      )}
+    </figure>
+  );
+}
@@ -0,0 +1,85 @@
+/**
+ * {{blockName}}
+ * {{blockDescription}}
+ *
+ * Block ID: {{blockId}}
+ */
+import React from "react";
+import {
+  Area,
+  AreaChart,
+  Bar,
+  BarChart,
+  CartesianGrid,
+  Line,
+  LineChart,
+  ResponsiveContainer,
+  Tooltip,
+  XAxis,
+  YAxis,
+} from "recharts";
+
+interface DataPoint {
+  /** Category or x axis label */
+  label: string;
+  /** Value plotted for the label */
+  value: number;
+}
+
+interface BlockProps {
+  /** Heading shown above the chart */
+  title: string;
+  /** Points to plot, in display order */
+  data: DataPoint[];
+  /** How the data is drawn */
+  chartType?: "bar" | "line" | "area";
+  /** Color of the bars, line or area */
+  color?: string;
+  /** Label of the value axis */
+  yAxisLabel?: string;
+  /** Chart height in pixels */
+  height?: number;
+}
+
+export default function Block({
+  title,
+  data = [],
+  chartType = "bar",
+  color = "#4f46e5",
+  yAxisLabel,
+  height = 320,
+}: BlockProps) {
+  const axes = [
+    <CartesianGrid key="grid" strokeDasharray="3 3" />,
+    <XAxis key="x" dataKey="label" />,
+    <YAxis
+      key="y"
+      label={yAxisLabel ? { value: yAxisLabel, angle: -90, position: "insideLeft" } : undefined}
+    />,
+    <Tooltip key="tooltip" />,
+  ];
+
+  return (
+    <div style={{ fontFamily: "sans-serif", padding: 16 }}>
+      <h3 style={{ marginTop: 0 }}>{title}</h3>
+      <ResponsiveContainer width="100%" height={height}>
+        {chartType === "line" ? (
+          <LineChart data={data}>
+            {axes}
+            <Line type="monotone" dataKey="value" stroke={color} strokeWidth={2} />
+          </LineChart>
+        ) : chartType === "area" ? (
+          <AreaChart data={data}>
+            {axes}
+            <Area type="monotone" dataKey="value" stroke={color} fill={color} fillOpacity={0.3} />
+          </AreaChart>
+        ) : (
+          <BarChart data={data}>
+            {axes}
+            <Bar dataKey="value" fill={color} />
+          </BarChart>
+        )}
+      </ResponsiveContainer>
+    </div>
+  );
+}
@@ -0,0 +1,122 @@
+/**
+ * {{blockName}}
+ * {{blockDescription}}
+ *
+ * Block ID: {{blockId}}
+ */
+import React, { useState } from "react";
+
+interface Question {
+  /** Question text */
+  question: string;
+  /** Answers to choose from */
+  options: string[];
+  /** Index of the correct option */
+  answer: number;
+  /** Shown after the question is answered */
+  explanation?: string;
+}
+
+interface BlockProps {
+  /** Quiz title */
+  title: string;
+  /** Questions, asked in order */
+  questions: Question[];
+  /** Show each question's explanation after it is answered */
+  showExplanations?: boolean;
+  /** Color of the buttons and highlights */
+  primaryColor?: string;
+}
+
+export default function Block({
+  title,
+  questions = [],
+  showExplanations = true,
+  primaryColor = "#4f46e5",
+}: BlockProps) {
+  const [current, setCurrent] = useState(0);
+  const [selected, setSelected] = useState<number | null>(null);
+  const [score, setScore] = useState(0);
+
+  if (questions.length === 0) {
+    return <p>Add some questions to start the quiz.</p>;
+  }
+
+  const restart = () => {
+    setCurrent(0);
+    setSelected(null);
+    setScore(0);
+  };
+
+  if (current >= questions.length) {
+    return (
+      <div style={{ fontFamily: "sans-serif", padding: 16 }}>
+        <h2>{title}</h2>
+        <p>
+          You scored {score} out of {questions.length}.
+        </p>
+        <button onClick={restart} style={{ background: primaryColor, color: "#fff", border: 0, padding: "8px 16px", borderRadius: 6 }}>
+          Try again
+        </button>
+      </div>
+    );
+  }
+
+  const question = questions[current];
+  const answered = selected !== null;
+
+  const choose = (index: number) => {
+    if (answered) {
+      return;
+    }
+    setSelected(index);
+    if (index === question.answer) {
+      setScore(score + 1);
+    }
+  };
+
+  const next = () => {
+    setSelected(null);
+    setCurrent(current + 1);
+  };
+
+  return (
+    <div style={{ fontFamily: "sans-serif", padding: 16 }}>
+      <h2>{title}</h2>
+      <p style={{ color: "#666" }}>
+        Question {current + 1} of {questions.length}
+      </p>
+      <h3>{question.question}</h3>
+      <div style={{ display: "grid", gap: 8 }}>
+        {question.options.map((option, index) => {
+          const isCorrect = index === question.answer;
+          const background = !answered
+            ? "#fff"
+            : isCorrect
+            ? "#dcfce7"
+            : index === selected
+            ? "#fee2e2"
+            : "#fff";
+          return (
+            <button
+              key={index}
+              onClick={() => choose(index)}
+              disabled={answered}
+              style={{ textAlign: "left", padding: 10, borderRadius: 6, border: `1px solid ${primaryColor}`, background }}
+            >
+              {option}
+            </button>
+          );
+        })}
+      </div>
+      {answered && (
+        <div style={{ marginTop: 12 }}>
+          {showExplanations && question.explanation && <p>{question.explanation}</p>}
+          <button onClick={next} style={{ background: primaryColor, color: "#fff", border: 0, padding: "8px 16px", borderRadius: 6 }}>
+            {current + 1 < questions.length ? "Next question" : "See results"}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,113 @@
+/**
+ * {{blockName}}
+ * {{blockDescription}}
+ *
+ * Block ID: {{blockId}}
+ */
+import React, { useEffect, useMemo, useState } from "react";
+import * as Y from "yjs";
+import { WebsocketProvider } from "y-websocket";
+
+interface Note {
+  id: string;
+  text: string;
+  color: string;
+}
+
+interface BlockProps {
+  /** Heading shown above the board */
+  title: string;
+  /** y-websocket server shared by everyone in the room */
+  serverUrl: string;
+  /** Users in the same room see the same notes */
+  room?: string;
+  /** Background color of new notes */
+  noteColor?: string;
+  /** Hint shown in the empty note input */
+  placeholder?: string;
+}
+
+export default function Block({
+  title,
+  serverUrl,
+  room = "{{blockId}}",
+  noteColor = "#fef08a",
+  placeholder = "Write a note and press Enter",
+}: BlockProps) {
+  const doc = useMemo(() => new Y.Doc(), []);
+  const notes = useMemo(() => doc.getArray<Note>("notes"), [doc]);
+  const [items, setItems] = useState<Note[]>([]);
+  const [draft, setDraft] = useState("");
+  const [connected, setConnected] = useState(false);
+  const [peers, setPeers] = useState(1);
+
+  useEffect(() => {
+    const provider = new WebsocketProvider(serverUrl, room, doc);
+    const update = () => setItems(notes.toArray());
+    const onStatus = (event: { status: string }) =>
+      setConnected(event.status === "connected");
+    const onAwareness = () => setPeers(provider.awareness.getStates().size);
+
+    notes.observe(update);
+    provider.on("status", onStatus);
+    provider.awareness.on("change", onAwareness);
+    update();
+
+    return () => {
+      notes.unobserve(update);
+      provider.awareness.off("change", onAwareness);
+      provider.destroy();
+    };
+  }, [serverUrl, room, doc, notes]);
+
+  useEffect(() => () => doc.destroy(), [doc]);
+
+  const add = () => {
+    const text = draft.trim();
+    if (!text) {
+      return;
+    }
+    notes.push([{ id: `${Date.now()}-${Math.random()}`, text, color: noteColor }]);
+    setDraft("");
+  };
+
+  const remove = (id: string) => {
+    const index = notes.toArray().findIndex((note) => note.id === id);
+    if (index >= 0) {
+      notes.delete(index, 1);
+    }
+  };
+
+  return (
+    <div style={{ fontFamily: "sans-serif", padding: 16 }}>
+      <h3 style={{ marginTop: 0 }}>{title}</h3>
+      <p style={{ color: "#666", fontSize: 12 }}>
+        {connected ? `Connected · ${peers} online` : "Connecting…"}
+      </p>
+      <input
+        value={draft}
+        onChange={(event) => setDraft(event.target.value)}
+        onKeyDown={(event) => event.key === "Enter" && add()}
+        placeholder={placeholder}
+        style={{ width: "100%", padding: 8, boxSizing: "border-box" }}
+      />
+      <div style={{ display: "flex", flexWrap: "wrap", gap: 8, marginTop: 12 }}>
+        {items.map((note) => (
+          <div
+            key={note.id}
+            style={{ background: note.color, padding: 12, borderRadius: 4, width: 140, position: "relative" }}
+          >
+            {note.text}
+            <button
+              onClick={() => remove(note.id)}
+              aria-label="Remove note"
+              style={{ position: "absolute", top: 2, right: 4, border: 0, background: "transparent", cursor: "pointer" }}
+            >
+              ×
+            </button>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}